@@ -7,7 +7,7 @@ import GUI from 'lil-gui'
 // import { Decals } from '../../utils/decals';
 import { RGBELoader } from 'three/examples/jsm/Addons.js';
 import { DRACOLoader } from 'three/examples/jsm/loaders/DRACOLoader.js'
-import { SVGDecals } from '../../utils/SVGDecals';
+import { SVGDecals, SVGDecalsAlignment, SVGDecalsControlsMode, SVGDecalBlendMode, SVGDecalEffectsUpdate, SVGDecalFill, SVGDecalProperties, SVGDecalShape, SVGDecalShapeType, SVGDecalTextPath, SVGDecalTextStyle } from '../../utils/SVGDecals';
 import { SVGTexture } from '../../utils/SVGTexture';
 
 interface ThreeViewerProps {
@@ -42,15 +42,41 @@ const ThreeViewer: React.FC<ThreeViewerProps> = (props) => {
     const decals = useRef<SVGDecals | null>(null);
     const svgBaseTextureInstance = useRef<SVGTexture | null>(null);
     const decalText = useRef<string>('Decal');
-    const [selectedDecalData, setSelectedDecalData] = useState<{ id: string, text: string; color: string; scale: number; rotate: number; x: number; y: number } | null>(null);
-    const decalProps = {
+    const [selectedDecalData, setSelectedDecalData] = useState<SVGDecalProperties | null>(null);
+    const decalProps = useRef({
         text: '',
         color: '#a3e8ff',
         scale: 0,
         rotate: 0,
         x: 0,
         y: 0,
-    };
+        flipX: false,
+        flipY: false,
+        stroke: '#000000',
+        strokeWidth: 0,
+        textAlign: 'left',
+        pathRadius: 0,
+        pathStartOffset: 50,
+        pathDirection: 'clockwise',
+        shapeWidth: 100,
+        shapeHeight: 100,
+        cornerRadius: 10,
+        fill: 'color',
+        opacity: 1,
+        blendMode: 'normal',
+        dropShadow: false,
+        glow: false,
+        outline: false,
+        distress: false,
+    });
+
+    const updateRender = useCallback(() => {
+        allowAnimation.current = true;
+        window.clearTimeout(allowAnimationTimeout.current);
+        allowAnimationTimeout.current = window.setTimeout(() => {
+            allowAnimation.current = false;
+        }, 1000);
+    }, []);
 
     const loadModel = useCallback(() => {
         const gltfLoader = new GLTFLoader();
@@ -259,7 +285,7 @@ const ThreeViewer: React.FC<ThreeViewerProps> = (props) => {
 
             gui.current.add({
                 addDecal: () => {
-                    const newDecalName = decals.current?.putDecal(undefined, {text: decalText.current, fill: decalProps.color});
+                    const newDecalName = decals.current?.putDecal(undefined, {text: decalText.current, fill: decalProps.current.color});
 
                     if (newDecalName) {
                         gui.current?.add({selectDecal: () => {
@@ -277,6 +303,28 @@ const ThreeViewer: React.FC<ThreeViewerProps> = (props) => {
                 },
             }, 'addDecal').name('Add Text Decal');
 
+            const shapeDecal = { type: 'rectangle' as SVGDecalShapeType };
+
+            gui.current.add(shapeDecal, 'type', ['rectangle', 'roundedRectangle', 'ellipse', 'polygon', 'star', 'line', 'stripe']).name('Shape Type');
+            gui.current.add({
+                addDecal: () => {
+                    const newDecalName = decals.current?.putDecal(undefined, {shape: {type: shapeDecal.type}, fill: decalProps.current.color});
+
+                    if (newDecalName) {
+                        gui.current?.add({selectDecal: () => {
+                            decals.current?.selectDecal(newDecalName);
+                            updateRender();
+                        }}, 'selectDecal').name(`Select ${newDecalName}`);
+                        gui.current?.add({deleteDecal: () => {
+                            decals.current?.deleteDecal(newDecalName);
+                            updateRender();
+                        }}, 'deleteDecal').name(`Delete ${newDecalName}`);
+                    }
+
+                    updateRender();
+                },
+            }, 'addDecal').name('Add Shape Decal');
+
             gui.current.add({
                 addDecal: () => {
                     const input = document.createElement('input');
@@ -365,10 +413,35 @@ const ThreeViewer: React.FC<ThreeViewerProps> = (props) => {
                 },
             }, 'addDecal').name('Add Image Decal');
 
+            gui.current.add({
+                loadFont: () => {
+                    const input = document.createElement('input');
+
+                    input.type = 'file';
+                    input.accept = '.ttf, .otf, .woff, .woff2';
+                    input.onchange = async (e: Event) => {
+                        const file = (e.target as HTMLInputElement).files?.[0];
+
+                        if (file) {
+                            const fontFamily = file.name.replace(/\.[^.]+$/, '');
+
+                            if (!await decals.current?.registerFont(fontFamily, await file.arrayBuffer())) {
+                                alert('Failed to load font.');
+                                return;
+                            }
+
+                            decals.current?.getSelectedDecalIds().forEach((id) => decals.current?.updateDecal(id, { textStyle: { fontFamily } }));
+                            updateRender();
+                        }
+                    };
+                    input.click();
+                },
+            }, 'loadFont').name('Load Font For Selected Text');
+
             gui.current.add({
                 downloadDecalTexture: () => {
                     decals.current?.deactivateAllDecals();
-                    SVGTexture.mergeAndDownloadSVG([decals.current?.getSVGElement()]);
+                    SVGTexture.mergeAndDownloadSVG(decals.current?.getSurfaceIds().map((id) => decals.current?.getSVGElement(id)) || []);
                 }
             }, 'downloadDecalTexture').name('Download Decal Texture');
 
@@ -386,24 +459,118 @@ const ThreeViewer: React.FC<ThreeViewerProps> = (props) => {
             gui.current.add({
                 downloadMergedTexture: () => {
                     const baseSVGTexture = svgBaseTextureInstance.current?.getSVGElement();
-                    const decalSVGTexture = decals.current?.getSVGElement();
+                    const decalSVGTextures = decals.current?.getSurfaceIds().map((id) => decals.current?.getSVGElement(id)) || [];
                     
                     decals.current?.deactivateAllDecals();
 
-                    if (baseSVGTexture || decalSVGTexture) {
-                        SVGTexture.mergeAndDownloadSVG([baseSVGTexture, decalSVGTexture]);
+                    if (baseSVGTexture || decalSVGTextures.length) {
+                        SVGTexture.mergeAndDownloadSVG([baseSVGTexture, ...decalSVGTextures]);
                     }
                 }
             }, 'downloadMergedTexture').name('Download Merged SVG Texture');
 
+            gui.current.add({
+                openDecalTexture: () => {
+                    const input = document.createElement('input');
+
+                    input.type = 'file';
+                    input.accept = 'image/svg+xml';
+                    input.onchange = async (e: Event) => {
+                        const file = (e.target as HTMLInputElement).files?.[0];
+
+                        if (file && !decals.current?.loadSVG(await file.text())) {
+                            alert('Failed to open decal texture.');
+                        }
+
+                        updateRender();
+                    };
+                    input.click();
+                }
+            }, 'openDecalTexture').name('Open Decal Texture');
+
+            gui.current.add({
+                duplicateDecal: () => {
+                    decals.current?.getSelectedDecalIds().forEach((id) => decals.current?.duplicateDecal(id));
+                    updateRender();
+                }
+            }, 'duplicateDecal').name('Duplicate Selected Decals');
+
+            gui.current.add({ surface: decals.current?.activeSurface || '' }, 'surface', decals.current?.getSurfaceIds() || []).name('Decal Surface').onChange((value: string) => {
+                decals.current?.setActiveSurface(value);
+                updateRender();
+            });
+
+            gui.current.add({ snapping: false }, 'snapping').name('Snapping').onChange((value: boolean) => {
+                if (decals.current) decals.current.snappingEnabled = value;
+            });
+
+            gui.current.add({ confine: false }, 'confine').name('Confine To UV Islands').onChange((value: boolean) => {
+                if (decals.current) decals.current.confineToIslands = value;
+            });
+
+            gui.current.add({ compensate: false }, 'compensate').name('Compensate UV Distortion').onChange((value: boolean) => {
+                if (decals.current) decals.current.distortionCompensationEnabled = value;
+            });
+
+            gui.current.add({ controlsMode: 'texture' }, 'controlsMode', ['texture', 'overlay']).name('Decal Controls').onChange((value: SVGDecalsControlsMode) => {
+                if (decals.current) decals.current.controlsMode = value;
+                updateRender();
+            });
+
+            gui.current.add({ align: 'left' }, 'align', ['left', 'center', 'right', 'top', 'middle', 'bottom']).name('Align Selected Decals').onChange((value: SVGDecalsAlignment) => {
+                decals.current?.alignDecals(decals.current.getSelectedDecalIds(), value);
+                updateRender();
+            });
+
+            gui.current.add({ distribute: 'horizontal' }, 'distribute', ['horizontal', 'vertical']).name('Distribute Selected Decals').onChange((value: 'horizontal' | 'vertical') => {
+                decals.current?.distributeDecals(decals.current.getSelectedDecalIds(), value);
+                updateRender();
+            });
+
+            gui.current.add({
+                undo: () => {
+                    decals.current?.undo();
+                    updateRender();
+                }
+            }, 'undo').name('Undo');
+
+            gui.current.add({
+                redo: () => {
+                    decals.current?.redo();
+                    updateRender();
+                }
+            }, 'redo').name('Redo');
+
             const decalFolder = gui.current.addFolder('Selected Decal Data');
             
-            decalFolder.add(decalProps, 'text').name('Text');
-            decalFolder.addColor(decalProps, 'color').name('Color');
-            decalFolder.add(decalProps, 'scale', -10, 10, 0.001).name('Scale');
-            decalFolder.add(decalProps, 'rotate', 0, 360, 0.001).name('Rotate');
-            decalFolder.add(decalProps, 'x', 0, 3000, 0.001).name('X');
-            decalFolder.add(decalProps, 'y', 0, 3000, 0.001).name('Y');
+            decalFolder.add(decalProps.current, 'text').name('Text');
+            decalFolder.addColor(decalProps.current, 'color').name('Color');
+            decalFolder.add(decalProps.current, 'scale', -10, 10, 0.001).name('Scale');
+            decalFolder.add(decalProps.current, 'rotate', 0, 360, 0.001).name('Rotate');
+            decalFolder.add(decalProps.current, 'x', 0, 3000, 0.001).name('X');
+            decalFolder.add(decalProps.current, 'y', 0, 3000, 0.001).name('Y');
+            decalFolder.add(decalProps.current, 'flipX').name('Flip X');
+            decalFolder.add(decalProps.current, 'flipY').name('Flip Y');
+            decalFolder.addColor(decalProps.current, 'stroke').name('Outline Color');
+            decalFolder.add(decalProps.current, 'strokeWidth', 0, 20, 0.1).name('Outline Width');
+            decalFolder.add(decalProps.current, 'textAlign', ['left', 'center', 'right']).name('Text Align');
+            decalFolder.add(decalProps.current, 'pathRadius', 0, 2000, 1).name('Curve Radius (0 = straight)');
+            decalFolder.add(decalProps.current, 'pathStartOffset', 0, 100, 0.1).name('Curve Start Offset');
+            decalFolder.add(decalProps.current, 'pathDirection', ['clockwise', 'counterclockwise']).name('Curve Direction');
+            decalFolder.add(decalProps.current, 'shapeWidth', 0, 4096, 1).name('Shape Width');
+            decalFolder.add(decalProps.current, 'shapeHeight', 0, 4096, 1).name('Shape Height');
+            decalFolder.add(decalProps.current, 'cornerRadius', 0, 500, 1).name('Corner Radius');
+            decalFolder.add(decalProps.current, 'fill', ['color', 'linear', 'radial', 'stripes', 'dots']).name('Fill');
+            decalFolder.add(decalProps.current, 'opacity', 0, 1, 0.01).name('Opacity');
+            decalFolder.add(decalProps.current, 'blendMode', ['normal', 'multiply', 'screen', 'overlay']).name('Blend With Decals');
+            decalFolder.add(decalProps.current, 'dropShadow').name('Drop Shadow');
+            decalFolder.add(decalProps.current, 'glow').name('Glow');
+            decalFolder.add(decalProps.current, 'outline').name('Outline Effect');
+            decalFolder.add(decalProps.current, 'distress').name('Distressed');
+
+            /** A slider drag or a typed value is a single undoable step */
+            ['pointerdown', 'focusin'].forEach((type) => decalFolder.domElement.addEventListener(type, () => decals.current?.beginInteraction()));
+            decalFolder.onFinishChange(() => decals.current?.endInteraction());
 
 
             gui.current.add({
@@ -436,40 +603,106 @@ const ThreeViewer: React.FC<ThreeViewerProps> = (props) => {
                 },
             }, 'getDecalProps').name('Get Selected Decal Properties');
         }
-    }, []);
+    }, [updateRender]);
 
     const updateDecalText = useCallback((value: string) => {
         if (selectedDecalData) decals.current?.updateDecal(selectedDecalData.id, {text: value});
         updateRender();
-    }, [selectedDecalData]);
+    }, [selectedDecalData, updateRender]);
 
     const updateDecalColor = useCallback((value: string) => {
-        if (selectedDecalData) decals.current?.updateDecal(selectedDecalData.id, {fill: value});
+        /** Keep gradients and patterns when the color picker is only synced with the selection */
+        if (selectedDecalData && (!selectedDecalData.paint || value !== selectedDecalData.color)) {
+            decals.current?.updateDecal(selectedDecalData.id, {fill: value});
+        }
+        updateRender();
+    }, [selectedDecalData, updateRender]);
+
+    const updateDecalFill = useCallback((value: string) => {
+        const paint = selectedDecalData?.paint;
+
+        if (selectedDecalData && value !== (paint?.type === 'pattern' ? paint.pattern : paint?.type || 'color')) {
+            const stops = [{offset: 0, color: selectedDecalData.color}, {offset: 1, color: '#ffffff'}];
+            const fills: Record<string, SVGDecalFill> = {
+                color: selectedDecalData.color,
+                linear: {type: 'linear', stops},
+                radial: {type: 'radial', stops},
+                stripes: {type: 'pattern', pattern: 'stripes', color: selectedDecalData.color},
+                dots: {type: 'pattern', pattern: 'dots', color: selectedDecalData.color},
+            };
+
+            decals.current?.updateDecal(selectedDecalData.id, {fill: fills[value]});
+        }
         updateRender();
-    }, [selectedDecalData]);
+    }, [selectedDecalData, updateRender]);
 
     const updateDecalScale = useCallback((value: number) => {
         if (selectedDecalData) decals.current?.updateDecal(selectedDecalData.id, {scale: value});
         updateRender();
-    }, [selectedDecalData]);
+    }, [selectedDecalData, updateRender]);
 
     const updateDecalRotate = useCallback((value: number) => {
         if (selectedDecalData) decals.current?.updateDecal(selectedDecalData.id, {rotate: value});
         updateRender();
-    }, [selectedDecalData]);
+    }, [selectedDecalData, updateRender]);
 
     const updateDecalX = useCallback((value: number) => {
         if (selectedDecalData) decals.current?.updateDecal(selectedDecalData.id, {x: value});
         updateRender();
-    }, [selectedDecalData]);
+    }, [selectedDecalData, updateRender]);
 
     const updateDecalY = useCallback((value: number) => {
         if (selectedDecalData) decals.current?.updateDecal(selectedDecalData.id, {y: value});
         updateRender();
-    }, [selectedDecalData]);
+    }, [selectedDecalData, updateRender]);
+
+    const updateDecalFlipX = useCallback((value: boolean) => {
+        if (selectedDecalData) decals.current?.updateDecal(selectedDecalData.id, {flipX: value});
+        updateRender();
+    }, [selectedDecalData, updateRender]);
+
+    const updateDecalFlipY = useCallback((value: boolean) => {
+        if (selectedDecalData) decals.current?.updateDecal(selectedDecalData.id, {flipY: value});
+        updateRender();
+    }, [selectedDecalData, updateRender]);
+
+    const updateDecalTextStyle = useCallback((value: Partial<SVGDecalTextStyle>) => {
+        if (selectedDecalData?.textStyle) decals.current?.updateDecal(selectedDecalData.id, {textStyle: value});
+        updateRender();
+    }, [selectedDecalData, updateRender]);
+
+    const updateDecalTextPath = useCallback((value: Partial<SVGDecalTextPath> | null) => {
+        if (selectedDecalData?.textStyle) decals.current?.updateDecal(selectedDecalData.id, {textPath: value});
+        updateRender();
+    }, [selectedDecalData, updateRender]);
+
+    const updateDecalShape = useCallback((value: Partial<SVGDecalShape>) => {
+        if (selectedDecalData?.shape) decals.current?.updateDecal(selectedDecalData.id, {shape: value});
+        updateRender();
+    }, [selectedDecalData, updateRender]);
+
+    const updateDecalOpacity = useCallback((value: number) => {
+        if (selectedDecalData) decals.current?.updateDecal(selectedDecalData.id, {opacity: value});
+        updateRender();
+    }, [selectedDecalData, updateRender]);
+
+    const updateDecalBlendMode = useCallback((value: SVGDecalBlendMode) => {
+        if (selectedDecalData) decals.current?.updateDecal(selectedDecalData.id, {blendMode: value});
+        updateRender();
+    }, [selectedDecalData, updateRender]);
+
+    const updateDecalEffect = useCallback((effect: keyof SVGDecalEffectsUpdate, value: boolean) => {
+        /** Keep the values of effects that are already on */
+        if (selectedDecalData && value !== !!selectedDecalData.effects[effect]) {
+            decals.current?.updateDecal(selectedDecalData.id, {effects: {[effect]: value ? {} : null}});
+        }
+        updateRender();
+    }, [selectedDecalData, updateRender]);
 
     useEffect(() => {
         if (gui.current && selectedDecalData) {
+            const outline = selectedDecalData.textStyle || selectedDecalData.shape;
+
             gui.current.folders[0].controllers[0].onChange(updateDecalText);
             gui.current.folders[0].controllers[0].setValue(selectedDecalData.text);
             gui.current.folders[0].controllers[1].onChange(updateDecalColor);
@@ -482,8 +715,56 @@ const ThreeViewer: React.FC<ThreeViewerProps> = (props) => {
             gui.current.folders[0].controllers[4].setValue(selectedDecalData.x);
             gui.current.folders[0].controllers[5].onChange(updateDecalY);
             gui.current.folders[0].controllers[5].setValue(selectedDecalData.y);
+            gui.current.folders[0].controllers[6].onChange(updateDecalFlipX);
+            gui.current.folders[0].controllers[6].setValue(selectedDecalData.flipX);
+            gui.current.folders[0].controllers[7].onChange(updateDecalFlipY);
+            gui.current.folders[0].controllers[7].setValue(selectedDecalData.flipY);
+            gui.current.folders[0].controllers[8].onChange((value: string) => {
+                if (selectedDecalData.shape) updateDecalShape({stroke: value});
+                else updateDecalTextStyle({stroke: value});
+            });
+            if (outline?.stroke.startsWith('#')) {
+                gui.current.folders[0].controllers[8].setValue(outline.stroke);
+            }
+            gui.current.folders[0].controllers[9].onChange((value: number) => {
+                if (selectedDecalData.shape) updateDecalShape({strokeWidth: value});
+                else updateDecalTextStyle({strokeWidth: value});
+            });
+            gui.current.folders[0].controllers[9].setValue(outline?.strokeWidth || 0);
+            gui.current.folders[0].controllers[10].onChange((value: SVGDecalTextStyle['textAlign']) => updateDecalTextStyle({textAlign: value}));
+            gui.current.folders[0].controllers[10].setValue(selectedDecalData.textStyle?.textAlign || 'left');
+            gui.current.folders[0].controllers[11].onChange((value: number) => updateDecalTextPath(value > 0 ? {radius: value} : null));
+            gui.current.folders[0].controllers[11].setValue(selectedDecalData.textPath?.radius || 0);
+            gui.current.folders[0].controllers[12].onChange((value: number) => {
+                if (selectedDecalData.textPath) updateDecalTextPath({startOffset: value});
+            });
+            gui.current.folders[0].controllers[12].setValue(selectedDecalData.textPath?.startOffset ?? 50);
+            gui.current.folders[0].controllers[13].onChange((value: SVGDecalTextPath['direction']) => {
+                if (selectedDecalData.textPath) updateDecalTextPath({direction: value});
+            });
+            gui.current.folders[0].controllers[13].setValue(selectedDecalData.textPath?.direction || 'clockwise');
+            gui.current.folders[0].controllers[14].onChange((value: number) => updateDecalShape({width: value}));
+            gui.current.folders[0].controllers[14].setValue(selectedDecalData.shape?.width || 0);
+            gui.current.folders[0].controllers[15].onChange((value: number) => updateDecalShape({height: value}));
+            gui.current.folders[0].controllers[15].setValue(selectedDecalData.shape?.height || 0);
+            gui.current.folders[0].controllers[16].onChange((value: number) => updateDecalShape({cornerRadius: value}));
+            gui.current.folders[0].controllers[16].setValue(selectedDecalData.shape?.cornerRadius || 0);
+            gui.current.folders[0].controllers[17].onChange(updateDecalFill);
+            gui.current.folders[0].controllers[17].setValue(selectedDecalData.paint?.type === 'pattern' ? selectedDecalData.paint.pattern : selectedDecalData.paint?.type || 'color');
+            gui.current.folders[0].controllers[18].onChange(updateDecalOpacity);
+            gui.current.folders[0].controllers[18].setValue(selectedDecalData.opacity);
+            gui.current.folders[0].controllers[19].onChange(updateDecalBlendMode);
+            gui.current.folders[0].controllers[19].setValue(selectedDecalData.blendMode);
+            (['dropShadow', 'glow', 'outline', 'distress'] as const).forEach((effect, index) => {
+                gui.current?.folders[0].controllers[20 + index].onChange((value: boolean) => updateDecalEffect(effect, value));
+                gui.current?.folders[0].controllers[20 + index].setValue(!!selectedDecalData.effects[effect]);
+            });
         }
-    }, [selectedDecalData]);
+    }, [
+        selectedDecalData, updateDecalText, updateDecalColor, updateDecalScale, updateDecalRotate, updateDecalX, updateDecalY,
+        updateDecalFlipX, updateDecalFlipY, updateDecalTextStyle, updateDecalTextPath, updateDecalShape, updateDecalFill,
+        updateDecalOpacity, updateDecalBlendMode, updateDecalEffect,
+    ]);
 
     const initScene = useCallback(() => {
         if (mountRef.current && !sceneReady) {
@@ -511,15 +792,9 @@ const ThreeViewer: React.FC<ThreeViewerProps> = (props) => {
         }
     }, [sceneReady]);
 
-    const updateRender = useCallback(() => {
-        allowAnimation.current = true;
-        window.clearTimeout(allowAnimationTimeout.current);
-        allowAnimationTimeout.current = window.setTimeout(() => {
-            allowAnimation.current = false;
-        }, 1000);
-    }, []);
-
     useEffect(() => {
+        let unsubscribeUpdate: (() => void) | null = null;
+
         const initDecals = async () => {
             if (modelLoaded && model.current && controls.current) {
                 controls.current?.addEventListener('change', updateRender);
@@ -529,24 +804,8 @@ const ThreeViewer: React.FC<ThreeViewerProps> = (props) => {
                 if (camera.current) {
                     decals.current = new SVGDecals(scene.current, model.current, camera.current, controls.current, renderer.current);
 
-                    decals.current.on('update', (data: unknown) => {
-                        const typedData = data as { 
-                            event: MouseEvent, 
-                            updatedSVGContent: string, 
-                            dragging: boolean,
-                            rotating: boolean,
-                            scaling: boolean,
-                            props: {
-                                id: string;
-                                text: string;
-                                color: string;
-                                scale: number;
-                                rotate: number;
-                                x: number;
-                                y: number;
-                            }
-                        };
-                        setSelectedDecalData(typedData.props || null);
+                    unsubscribeUpdate = decals.current.on('update', (data) => {
+                        setSelectedDecalData(data.props || null);
                         updateRender();
                     });
                 }
@@ -557,6 +816,13 @@ const ThreeViewer: React.FC<ThreeViewerProps> = (props) => {
         }
 
         initDecals();
+
+        return () => {
+            unsubscribeUpdate?.();
+            decals.current?.dispose();
+            decals.current = null;
+            controls.current?.removeEventListener('change', updateRender);
+        };
     }, [modelLoaded]);
 
     const render = useCallback(() => {
@@ -577,6 +843,7 @@ const ThreeViewer: React.FC<ThreeViewerProps> = (props) => {
         }
 
         return () => {
+            svgBaseTextureInstance.current?.dispose();
             renderer.current.dispose();
             controls.current?.dispose();
             scene.current.traverse((child) => {
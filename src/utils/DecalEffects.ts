@@ -0,0 +1,219 @@
+import type { SVGDecalDistressEffect, SVGDecalEffects, SVGDecalEffectsUpdate, SVGDecalGlowEffect, SVGDecalOutlineEffect, SVGDecalShadowEffect } from './SVGDecals';
+import { ATTR_NAME, createSVGElement, getDecalDefinition, getDecalDefinitions, nameDecalDefinition, removeDecalDefinition, warnInvalid } from './decalElements';
+
+/** Values of the effects by name, so every effect can be validated against its own defaults and limits */
+interface DecalEffectValues {
+    dropShadow: SVGDecalShadowEffect;
+    glow: SVGDecalGlowEffect;
+    outline: SVGDecalOutlineEffect;
+    distress: SVGDecalDistressEffect;
+}
+
+const DEFAULT_DECAL_EFFECTS: DecalEffectValues = {
+    dropShadow: { dx: 4, dy: 4, blur: 4, color: '#000000', opacity: 0.5 },
+    glow: { blur: 8, color: '#ffffff', opacity: 0.8 },
+    outline: { width: 4, color: '#ffffff' },
+    distress: { amount: 0.4, scale: 20, seed: 1 },
+};
+
+/** Allowed ranges of the numeric effect values, values without a range can be any finite number */
+const DECAL_EFFECT_LIMITS: { [K in keyof DecalEffectValues]: Partial<Record<keyof DecalEffectValues[K], [number, number]>> } = {
+    dropShadow: { blur: [0, Infinity], opacity: [0, 1] },
+    glow: { blur: [0, Infinity], opacity: [0, 1] },
+    outline: { width: [0, Infinity] },
+    distress: { amount: [0, 1], scale: [Number.MIN_VALUE, Infinity] },
+};
+
+/**
+ * SVG filter effects of decals: drop shadow, glow, outline and distress.
+ *
+ * The effects of a decal are drawn by one filter defined in the `defs` element of its decal group
+ * and referenced by its content group. The values of every effect that is on are stored on the
+ * filter element as `<effect>-<value>` attributes.
+ */
+export class DecalEffects {
+    private readonly ATTR_EFFECTS = 'effects';
+
+    /**
+     * Checks whether an attribute stores effect values, so it is kept when markup is sanitized.
+     *
+     * @param name - The attribute name.
+     */
+    public isStateAttribute(name: string): boolean {
+        return Object.keys(DEFAULT_DECAL_EFFECTS).some((effect) => name.startsWith(`${effect}-`));
+    }
+
+    /**
+     * Reads the filter effects of a decal.
+     *
+     * @param decal - The decal group.
+     * @returns The effects, null for effects that are off.
+     */
+    public get(decal: Element): SVGDecalEffects {
+        const filterElement = getDecalDefinition(decal, this.ATTR_EFFECTS);
+        const read = <K extends keyof SVGDecalEffects>(effect: K): SVGDecalEffects[K] => {
+            const defaults = DEFAULT_DECAL_EFFECTS[effect];
+
+            if (!filterElement || !Object.keys(defaults).some((key) => filterElement.hasAttribute(`${effect}-${key}`))) return null;
+
+            return Object.fromEntries(Object.entries(defaults).map(([key, value]) => {
+                const attribute = filterElement.getAttribute(`${effect}-${key}`);
+
+                return [key, attribute === null ? value : typeof value === 'number' ? parseFloat(attribute) : attribute];
+            })) as SVGDecalEffects[K];
+        };
+
+        return { dropShadow: read('dropShadow'), glow: read('glow'), outline: read('outline'), distress: read('distress') };
+    }
+
+    /**
+     * Turns filter effects of a decal on, off or changes them, and rebuilds the filter of its content group.
+     * Invalid effects are reported with a warning and left unchanged.
+     *
+     * @param decal - The decal group.
+     * @param contentElement - The content group of the decal.
+     * @param update - The effects to change, null turns an effect off.
+     */
+    public apply(decal: Element, contentElement: Element, update: SVGDecalEffectsUpdate): void {
+        const effects = this.get(decal);
+        const setEffect = <K extends keyof DecalEffectValues>(effect: K, value: Partial<DecalEffectValues[K]>) => {
+            const defaults = DEFAULT_DECAL_EFFECTS[effect];
+            const limits = DECAL_EFFECT_LIMITS[effect];
+            const values: DecalEffectValues[K] = { ...defaults, ...effects[effect], ...value };
+            const invalidKey = (Object.keys(defaults) as (keyof DecalEffectValues[K])[]).find((key) => {
+                const item = values[key];
+
+                if (typeof defaults[key] === 'string') return typeof item !== 'string' || !item;
+
+                const [min, max] = limits[key] || [-Infinity, Infinity];
+
+                return typeof item !== 'number' || !Number.isFinite(item) || item < min || item > max;
+            });
+
+            if (invalidKey !== undefined) {
+                warnInvalid('effect', `${effect}.${String(invalidKey)}`, values[invalidKey]);
+                return;
+            }
+
+            effects[effect] = values;
+        };
+
+        (Object.keys(update) as (keyof SVGDecalEffects)[]).forEach((effect) => {
+            const value = update[effect];
+
+            if (value === undefined) return;
+
+            if (!(effect in DEFAULT_DECAL_EFFECTS)) {
+                warnInvalid('effect', effect, value);
+                return;
+            }
+
+            if (value === null) {
+                effects[effect] = null;
+                return;
+            }
+
+            setEffect(effect, value);
+        });
+
+        removeDecalDefinition(getDecalDefinition(decal, this.ATTR_EFFECTS));
+
+        const filterElement = this.createFilter(effects);
+
+        if (!filterElement) {
+            contentElement.removeAttribute('filter');
+            return;
+        }
+
+        filterElement.setAttribute(ATTR_NAME, this.ATTR_EFFECTS);
+        getDecalDefinitions(decal).appendChild(filterElement);
+        nameDecalDefinition(decal, filterElement, 'effects');
+        contentElement.setAttribute('filter', `url(#${filterElement.getAttribute('id')})`);
+    }
+
+    /**
+     * Names the filter of a decal after the decal, updating the reference to it.
+     *
+     * @param decal - The decal group.
+     */
+    public layout(decal: Element): void {
+        const filterElement = getDecalDefinition(decal, this.ATTR_EFFECTS);
+
+        if (filterElement) {
+            nameDecalDefinition(decal, filterElement, 'effects');
+        }
+    }
+
+    /**
+     * Creates the filter drawing the effects of a decal.
+     *
+     * The graphic is distressed first and then outlined, the shadow and glow are cast by the
+     * outlined graphic and drawn below it.
+     *
+     * @param effects - The effects.
+     * @returns The filter element, or null if every effect is off.
+     */
+    private createFilter(effects: SVGDecalEffects): Element | null {
+        const { dropShadow, glow, outline, distress } = effects;
+
+        if (!dropShadow && !glow && !outline && !distress) return null;
+
+        /** Leave room for the shadow, glow and outline around the decal */
+        const filterElement = createSVGElement('filter', {
+            x: '-50%',
+            y: '-50%',
+            width: '200%',
+            height: '200%',
+            'color-interpolation-filters': 'sRGB',
+        });
+        const layers: string[] = [];
+        let graphic = 'SourceGraphic';
+
+        Object.entries(effects).forEach(([effect, values]) => {
+            Object.entries(values || {}).forEach(([key, value]) => filterElement.setAttribute(`${effect}-${key}`, String(value)));
+        });
+
+        if (distress) {
+            const threshold = 0.25 + distress.amount * 0.3;
+
+            /** The red channel of the noise becomes a mask, opaque where it is above the threshold */
+            createSVGElement('feTurbulence', { type: 'fractalNoise', baseFrequency: 1 / distress.scale, numOctaves: 3, seed: distress.seed, result: 'noise' }, filterElement);
+            createSVGElement('feColorMatrix', { in: 'noise', type: 'matrix', values: `0 0 0 0 0  0 0 0 0 0  0 0 0 0 0  15 0 0 0 ${-15 * threshold}`, result: 'wear' }, filterElement);
+            createSVGElement('feComposite', { in: 'SourceGraphic', in2: 'wear', operator: 'in', result: 'distressed' }, filterElement);
+            graphic = 'distressed';
+        }
+
+        if (outline) {
+            createSVGElement('feMorphology', { in: graphic, operator: 'dilate', radius: outline.width, result: 'outlineShape' }, filterElement);
+            createSVGElement('feFlood', { 'flood-color': outline.color, result: 'outlineColor' }, filterElement);
+            createSVGElement('feComposite', { in: 'outlineColor', in2: 'outlineShape', operator: 'in', result: 'outline' }, filterElement);
+
+            const merge = createSVGElement('feMerge', { result: 'outlined' }, filterElement);
+
+            createSVGElement('feMergeNode', { in: 'outline' }, merge);
+            createSVGElement('feMergeNode', { in: graphic }, merge);
+            graphic = 'outlined';
+        }
+
+        if (dropShadow) {
+            createSVGElement('feGaussianBlur', { in: graphic, stdDeviation: dropShadow.blur / 2, result: 'shadowBlur' }, filterElement);
+            createSVGElement('feOffset', { in: 'shadowBlur', dx: dropShadow.dx, dy: dropShadow.dy, result: 'shadowOffset' }, filterElement);
+            createSVGElement('feFlood', { 'flood-color': dropShadow.color, 'flood-opacity': dropShadow.opacity, result: 'shadowColor' }, filterElement);
+            createSVGElement('feComposite', { in: 'shadowColor', in2: 'shadowOffset', operator: 'in', result: 'shadow' }, filterElement);
+            layers.push('shadow');
+        }
+
+        if (glow) {
+            createSVGElement('feGaussianBlur', { in: graphic, stdDeviation: glow.blur / 2, result: 'glowBlur' }, filterElement);
+            createSVGElement('feFlood', { 'flood-color': glow.color, 'flood-opacity': glow.opacity, result: 'glowColor' }, filterElement);
+            createSVGElement('feComposite', { in: 'glowColor', in2: 'glowBlur', operator: 'in', result: 'glow' }, filterElement);
+            layers.push('glow');
+        }
+
+        const merge = createSVGElement('feMerge', {}, filterElement);
+
+        [...layers, graphic].forEach((layer) => createSVGElement('feMergeNode', { in: layer }, merge));
+
+        return filterElement;
+    }
+}
@@ -0,0 +1,150 @@
+export interface DecalHistoryState {
+    /** Names of all decals in paint order. */
+    ids: string[];
+    /** Serialized markup of the decals changed by the step, by name. Decals that did not exist are missing. */
+    decals: Map<string, string>;
+}
+
+export interface DecalHistoryEntry {
+    /** Name of the operation that produced the entry. */
+    label: string;
+    /** Decal state before the operation. */
+    before: DecalHistoryState;
+    /** Decal state after the operation. */
+    after: DecalHistoryState;
+    /** Id of the decal surface the operation was applied to. */
+    surface?: string;
+}
+
+/**
+ * Undo/redo stack of decal changes.
+ *
+ * Each entry stores the decals of one surface changed by an undoable step as they were before and after it,
+ * so undoing restores `before` and redoing restores `after`. Unchanged decals are not stored.
+ * A step changing several surfaces is made of one entry per surface.
+ */
+export class DecalHistory {
+    private undoStack: DecalHistoryEntry[][] = [];
+    private redoStack: DecalHistoryEntry[][] = [];
+    private limit: number;
+    private mergeKey: string | undefined;
+    private group: DecalHistoryEntry[] | null = null;
+
+    /**
+     * @param limit - Maximum number of undoable steps kept in memory.
+     */
+    constructor(limit: number = 100) {
+        this.limit = limit;
+    }
+
+    public get canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    public get canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    /**
+     * Adds a new step on top of the undo stack and clears the redo stack.
+     *
+     * A step pushed with the same merge key as the step right before it is merged into that step,
+     * so e.g. dragging a slider produces a single step.
+     *
+     * @param entry - The step to add.
+     * @param mergeKey - Key identifying steps that can be merged, or undefined to never merge the step.
+     */
+    public push(entry: DecalHistoryEntry, mergeKey?: string): void {
+        const [previous, ...others] = this.undoStack[this.undoStack.length - 1] || [];
+
+        this.redoStack = [];
+
+        if (this.group) {
+            this.group.push(entry);
+            return;
+        }
+
+        if (mergeKey !== undefined && mergeKey === this.mergeKey && !others.length && previous?.surface === entry.surface) {
+            /** Decals first changed by the merged step keep the state they had before the previous step */
+            entry.before.decals.forEach((markup, id) => {
+                if (!previous.before.decals.has(id)) previous.before.decals.set(id, markup);
+            });
+            entry.after.decals.forEach((markup, id) => previous.after.decals.set(id, markup));
+            previous.after.ids = entry.after.ids;
+            return;
+        }
+
+        this.undoStack.push([entry]);
+        this.mergeKey = mergeKey;
+
+        if (this.undoStack.length > this.limit) {
+            this.undoStack.shift();
+        }
+    }
+
+    /**
+     * Starts collecting the entries pushed until `endGroup()` into a single step,
+     * e.g. for an operation changing the decals of several surfaces.
+     */
+    public beginGroup(): void {
+        this.group = this.group || [];
+    }
+
+    /**
+     * Adds the entries collected since `beginGroup()` as a single step.
+     */
+    public endGroup(): void {
+        const group = this.group;
+
+        this.group = null;
+        this.mergeKey = undefined;
+
+        if (!group?.length) return;
+
+        this.undoStack.push(group);
+
+        if (this.undoStack.length > this.limit) {
+            this.undoStack.shift();
+        }
+    }
+
+    /**
+     * Moves the latest step to the redo stack.
+     * @returns The entries of the undone step or null if there is nothing to undo.
+     */
+    public undo(): DecalHistoryEntry[] | null {
+        const step = this.undoStack.pop();
+
+        if (!step) return null;
+
+        this.redoStack.push(step);
+        this.mergeKey = undefined;
+
+        return step;
+    }
+
+    /**
+     * Moves the latest undone step back to the undo stack.
+     * @returns The entries of the redone step or null if there is nothing to redo.
+     */
+    public redo(): DecalHistoryEntry[] | null {
+        const step = this.redoStack.pop();
+
+        if (!step) return null;
+
+        this.undoStack.push(step);
+        this.mergeKey = undefined;
+
+        return step;
+    }
+
+    /**
+     * Removes all steps.
+     */
+    public clear(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.mergeKey = undefined;
+        this.group = null;
+    }
+}
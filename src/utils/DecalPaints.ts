@@ -0,0 +1,259 @@
+import type { SVGDecalFill, SVGDecalGradientStop, SVGDecalLinearGradient, SVGDecalPaint, SVGDecalPattern, SVGDecalPatternType, SVGDecalRadialGradient } from './SVGDecals';
+import { ATTR_NAME, createSVGElement, getDecalDefinition, getDecalDefinitions, nameDecalDefinition, removeDecalDefinition, warnInvalid } from './decalElements';
+
+/**
+ * Gradient and pattern fills of decals.
+ *
+ * A paint is defined in the `defs` element of its decal group and referenced by the `fill`
+ * attributes of the decal content. Its parameters are stored as attributes of the definition.
+ */
+export class DecalPaints {
+    private readonly ATTR_PAINT = 'paint';
+    private readonly ATTR_GRADIENT_ANGLE = 'gradientAngle';
+    private readonly ATTR_GRADIENT_CX = 'gradientCx';
+    private readonly ATTR_GRADIENT_CY = 'gradientCy';
+    private readonly ATTR_GRADIENT_RADIUS = 'gradientRadius';
+    private readonly ATTR_PATTERN_TYPE = 'patternType';
+    private readonly ATTR_PATTERN_ANGLE = 'patternAngle';
+    private readonly ATTR_PATTERN_COLOR = 'patternColor';
+    private readonly ATTR_PATTERN_BACKGROUND = 'patternBackground';
+
+    private defaultFill: string;
+    private isInlineImage: (href: string) => boolean;
+
+    /**
+     * @param defaultFill - First gradient stop and pattern color of paints without one.
+     * @param isInlineImage - Accepts the URLs image patterns can be filled with, only inline images are safe to load.
+     */
+    constructor(defaultFill: string, isInlineImage: (href: string) => boolean) {
+        this.defaultFill = defaultFill;
+        this.isInlineImage = isInlineImage;
+    }
+
+    /**
+     * Checks whether an attribute stores paint parameters, so it is kept when markup is sanitized.
+     *
+     * @param name - The attribute name.
+     */
+    public isStateAttribute(name: string): boolean {
+        return [
+            this.ATTR_GRADIENT_ANGLE, this.ATTR_GRADIENT_CX, this.ATTR_GRADIENT_CY, this.ATTR_GRADIENT_RADIUS,
+            this.ATTR_PATTERN_TYPE, this.ATTR_PATTERN_ANGLE, this.ATTR_PATTERN_COLOR, this.ATTR_PATTERN_BACKGROUND,
+        ].includes(name);
+    }
+
+    /**
+     * Reads the gradient or pattern fill of a decal.
+     *
+     * @param decal - The decal group.
+     * @returns The paint, or null if the decal is filled with a color.
+     */
+    public get(decal: Element): SVGDecalPaint | null {
+        const paintElement = getDecalDefinition(decal, this.ATTR_PAINT);
+
+        if (!paintElement) return null;
+
+        const number = (name: string, fallback: number) => parseFloat(paintElement.getAttribute(name) || fallback.toString());
+        const stops = Array.from(paintElement.querySelectorAll(':scope > stop')).map((stop) => ({
+            offset: parseFloat(stop.getAttribute('offset') || '0'),
+            color: stop.getAttribute('stop-color') || 'black',
+            opacity: parseFloat(stop.getAttribute('stop-opacity') || '1'),
+        }));
+
+        switch (paintElement.tagName) {
+            case 'linearGradient':
+                return { type: 'linear', angle: number(this.ATTR_GRADIENT_ANGLE, 0), stops };
+            case 'radialGradient':
+                return {
+                    type: 'radial',
+                    cx: number(this.ATTR_GRADIENT_CX, 0.5),
+                    cy: number(this.ATTR_GRADIENT_CY, 0.5),
+                    radius: number(this.ATTR_GRADIENT_RADIUS, 0.5),
+                    stops,
+                };
+            default:
+                return {
+                    type: 'pattern',
+                    pattern: (paintElement.getAttribute(this.ATTR_PATTERN_TYPE) || 'stripes') as SVGDecalPatternType,
+                    size: number('width', 20),
+                    angle: number(this.ATTR_PATTERN_ANGLE, 0),
+                    color: paintElement.getAttribute(this.ATTR_PATTERN_COLOR) || this.defaultFill,
+                    background: paintElement.getAttribute(this.ATTR_PATTERN_BACKGROUND) || 'none',
+                    image: paintElement.querySelector('image')?.getAttribute('href') || undefined,
+                };
+        }
+    }
+
+    /**
+     * Defines the fill of a decal. Colors remove the current paint, gradients and patterns replace it
+     * with a new definition merged from the given values, the current paint of the same type and defaults.
+     * Invalid paints are reported with a warning and leave the fill unchanged.
+     *
+     * The new definition has to be laid out with `layout` once the filled elements are in place.
+     *
+     * @param decal - The decal group.
+     * @param fill - The color or paint.
+     * @returns The value of the `fill` attributes and a color representing the fill, or null if the paint is invalid.
+     */
+    public apply(decal: Element, fill: SVGDecalFill): { fill: string; color: string } | null {
+        const paintElement = getDecalDefinition(decal, this.ATTR_PAINT);
+
+        if (typeof fill === 'string') {
+            removeDecalDefinition(paintElement);
+            return { fill, color: fill };
+        }
+
+        const current = this.get(decal);
+        const stops: SVGDecalGradientStop[] = [{ offset: 0, color: this.defaultFill }, { offset: 1, color: '#ffffff' }];
+        const defaults: Record<SVGDecalPaint['type'], SVGDecalPaint> = {
+            linear: { type: 'linear', angle: 0, stops },
+            radial: { type: 'radial', cx: 0.5, cy: 0.5, radius: 0.5, stops },
+            pattern: { type: 'pattern', pattern: 'stripes', size: 20, angle: 45, color: this.defaultFill, background: 'none' },
+        };
+
+        if (!(fill.type in defaults)) {
+            warnInvalid('fill', 'type', fill.type);
+            return null;
+        }
+
+        const paint = { ...defaults[fill.type], ...(current?.type === fill.type ? current : {}), ...fill } as SVGDecalPaint;
+        let element: Element;
+
+        if (paint.type === 'pattern') {
+            if (!['stripes', 'dots', 'image'].includes(paint.pattern)) {
+                warnInvalid('fill', 'pattern', paint.pattern);
+                return null;
+            }
+            if (!Number.isFinite(paint.size) || paint.size <= 0) {
+                warnInvalid('fill', 'size', paint.size);
+                return null;
+            }
+            if (!Number.isFinite(paint.angle)) {
+                warnInvalid('fill', 'angle', paint.angle);
+                return null;
+            }
+            if (paint.pattern === 'image' && (!paint.image || !this.isInlineImage(paint.image))) {
+                warnInvalid('fill', 'image', paint.image);
+                return null;
+            }
+
+            element = this.createPattern(paint);
+        } else {
+            const values = paint.type === 'linear' ? { angle: paint.angle } : { cx: paint.cx, cy: paint.cy, radius: paint.radius };
+            const invalidValue = Object.entries(values).find(([, value]) => !Number.isFinite(value));
+
+            if (invalidValue) {
+                warnInvalid('fill', invalidValue[0], invalidValue[1]);
+                return null;
+            }
+            if (!Array.isArray(paint.stops) || !paint.stops.length || paint.stops.some((stop) => !stop.color || !Number.isFinite(stop.offset) || stop.offset < 0 || stop.offset > 1)) {
+                warnInvalid('fill', 'stops', paint.stops);
+                return null;
+            }
+
+            element = this.createGradient(paint);
+        }
+
+        element.setAttribute(ATTR_NAME, this.ATTR_PAINT);
+        removeDecalDefinition(paintElement);
+        getDecalDefinitions(decal).appendChild(element);
+        nameDecalDefinition(decal, element, 'paint');
+
+        return {
+            fill: `url(#${element.getAttribute('id')})`,
+            color: paint.type === 'pattern' ? paint.color : [...paint.stops].sort((a, b) => a.offset - b.offset)[0].color,
+        };
+    }
+
+    /**
+     * Names the paint of a decal after the decal, updating the references to it, starts its
+     * pattern at an origin and spans its gradient over the filled element or a user space extent.
+     *
+     * @param decal - The decal group.
+     * @param origin - Where patterns start, in the coordinates of the filled element.
+     * @param extent - Size of the user space area gradients span, or null to span the bounding box of the filled element.
+     */
+    public layout(decal: Element, origin: { x: number; y: number }, extent: { width: number; height: number } | null): void {
+        const paintElement = getDecalDefinition(decal, this.ATTR_PAINT);
+
+        if (!paintElement) return;
+
+        nameDecalDefinition(decal, paintElement, 'paint');
+
+        if (paintElement.tagName !== 'pattern') {
+            const { width, height } = extent || { width: 1, height: 1 };
+            const number = (name: string, fallback: number) => parseFloat(paintElement.getAttribute(name) || fallback.toString());
+
+            paintElement.setAttribute('gradientUnits', extent ? 'userSpaceOnUse' : 'objectBoundingBox');
+
+            if (paintElement.tagName === 'linearGradient') {
+                const angle = number(this.ATTR_GRADIENT_ANGLE, 0) * Math.PI / 180;
+
+                paintElement.setAttribute('x1', ((0.5 - Math.cos(angle) / 2) * width).toString());
+                paintElement.setAttribute('y1', ((0.5 - Math.sin(angle) / 2) * height).toString());
+                paintElement.setAttribute('x2', ((0.5 + Math.cos(angle) / 2) * width).toString());
+                paintElement.setAttribute('y2', ((0.5 + Math.sin(angle) / 2) * height).toString());
+            } else {
+                paintElement.setAttribute('cx', (number(this.ATTR_GRADIENT_CX, 0.5) * width).toString());
+                paintElement.setAttribute('cy', (number(this.ATTR_GRADIENT_CY, 0.5) * height).toString());
+                paintElement.setAttribute('r', (number(this.ATTR_GRADIENT_RADIUS, 0.5) * Math.max(width, height)).toString());
+            }
+        } else {
+            paintElement.setAttribute('patternTransform', `translate(${origin.x}, ${origin.y}) rotate(${paintElement.getAttribute(this.ATTR_PATTERN_ANGLE) || '0'})`);
+        }
+    }
+
+    /**
+     * Creates the element of a linear or radial gradient. Its geometry is set by `layout`.
+     */
+    private createGradient(paint: SVGDecalLinearGradient | SVGDecalRadialGradient): Element {
+        const element = paint.type === 'linear'
+            ? createSVGElement('linearGradient', { [this.ATTR_GRADIENT_ANGLE]: paint.angle })
+            : createSVGElement('radialGradient', {
+                [this.ATTR_GRADIENT_CX]: paint.cx,
+                [this.ATTR_GRADIENT_CY]: paint.cy,
+                [this.ATTR_GRADIENT_RADIUS]: paint.radius,
+            });
+
+        /** Stops have to be in order, a stop before a larger offset is moved up to that offset */
+        [...paint.stops].sort((a, b) => a.offset - b.offset).forEach((stop) => {
+            createSVGElement('stop', { offset: stop.offset, 'stop-color': stop.color, 'stop-opacity': stop.opacity ?? 1 }, element);
+        });
+
+        return element;
+    }
+
+    /**
+     * Creates the element of a repeating pattern, with one tile drawn in user space units.
+     */
+    private createPattern(paint: SVGDecalPattern): Element {
+        const size = paint.size;
+        const element = createSVGElement('pattern', {
+            patternUnits: 'userSpaceOnUse',
+            width: size,
+            height: size,
+            [this.ATTR_PATTERN_TYPE]: paint.pattern,
+            [this.ATTR_PATTERN_ANGLE]: paint.angle,
+            [this.ATTR_PATTERN_COLOR]: paint.color,
+            [this.ATTR_PATTERN_BACKGROUND]: paint.background || 'none',
+        });
+
+        if (paint.background && paint.background !== 'none') {
+            createSVGElement('rect', { width: size, height: size, fill: paint.background }, element);
+        }
+
+        switch (paint.pattern) {
+            case 'stripes':
+                createSVGElement('rect', { width: size, height: size / 2, fill: paint.color }, element);
+                break;
+            case 'dots':
+                createSVGElement('circle', { cx: size / 2, cy: size / 2, r: size / 4, fill: paint.color }, element);
+                break;
+            case 'image':
+                createSVGElement('image', { href: paint.image || '', width: size, height: size, preserveAspectRatio: 'xMidYMid slice' }, element);
+                break;
+        }
+
+        return element;
+    }
+}
@@ -0,0 +1,161 @@
+import type { SVGDecalShape, SVGDecalShapeType } from './SVGDecals';
+import { createSVGElement, warnInvalid } from './decalElements';
+
+const SHAPE_TYPES: SVGDecalShapeType[] = ['rectangle', 'roundedRectangle', 'ellipse', 'polygon', 'star', 'line', 'stripe'];
+
+/**
+ * Geometry of vector shape decals.
+ *
+ * The parameters of a shape are stored as attributes of its shape element, a group translated to
+ * the decal position, and its primitives are drawn from them with the top left corner at the origin.
+ */
+export class DecalShapes {
+    private readonly ATTR_SHAPE_TYPE = 'shapeType';
+    private readonly ATTR_SHAPE_WIDTH = 'shapeWidth';
+    private readonly ATTR_SHAPE_HEIGHT = 'shapeHeight';
+    private readonly ATTR_CORNER_RADIUS = 'cornerRadius';
+    private readonly ATTR_SHAPE_POINTS = 'shapePoints';
+    private readonly ATTR_INNER_RADIUS = 'innerRadius';
+    private readonly ATTR_STRIPES = 'stripes';
+
+    private defaultSize: number;
+    private defaultFill: string;
+
+    /**
+     * @param defaultSize - Width and height of shapes without stored dimensions, in SVG units.
+     * @param defaultFill - Stroke color of lines without a fill.
+     */
+    constructor(defaultSize: number, defaultFill: string) {
+        this.defaultSize = defaultSize;
+        this.defaultFill = defaultFill;
+    }
+
+    /**
+     * Checks whether an attribute stores shape parameters, so it is kept when markup is sanitized.
+     *
+     * @param name - The attribute name.
+     */
+    public isStateAttribute(name: string): boolean {
+        return [
+            this.ATTR_SHAPE_TYPE, this.ATTR_SHAPE_WIDTH, this.ATTR_SHAPE_HEIGHT, this.ATTR_CORNER_RADIUS,
+            this.ATTR_SHAPE_POINTS, this.ATTR_INNER_RADIUS, this.ATTR_STRIPES,
+        ].includes(name);
+    }
+
+    /**
+     * Reads the parameters of a shape decal from its attributes.
+     *
+     * @param shapeElement - The shape element of a shape decal.
+     * @returns The shape parameters.
+     */
+    public get(shapeElement: Element): SVGDecalShape {
+        const number = (name: string, fallback: number) => parseFloat(shapeElement.getAttribute(name) || fallback.toString());
+
+        return {
+            type: (shapeElement.getAttribute(this.ATTR_SHAPE_TYPE) || 'rectangle') as SVGDecalShapeType,
+            width: number(this.ATTR_SHAPE_WIDTH, this.defaultSize),
+            height: number(this.ATTR_SHAPE_HEIGHT, this.defaultSize),
+            cornerRadius: number(this.ATTR_CORNER_RADIUS, 0),
+            points: number(this.ATTR_SHAPE_POINTS, 5),
+            innerRadius: number(this.ATTR_INNER_RADIUS, 0.5),
+            stripes: number(this.ATTR_STRIPES, 3),
+            stroke: shapeElement.getAttribute('stroke') || 'none',
+            strokeWidth: number('stroke-width', 0),
+        };
+    }
+
+    /**
+     * Stores shape parameters on a shape element. Invalid values are reported with a warning and skipped.
+     *
+     * @param shapeElement - The shape element of a shape decal.
+     * @param shape - The shape parameters to change.
+     */
+    public apply(shapeElement: Element, shape: Partial<SVGDecalShape>): void {
+        const setNumber = (name: keyof SVGDecalShape, attribute: string, value: number | undefined, min: number, max = Infinity) => {
+            if (value === undefined) return;
+
+            if (Number.isFinite(value) && value >= min && value <= max) {
+                shapeElement.setAttribute(attribute, value.toString());
+            } else {
+                warnInvalid('shape', name, value);
+            }
+        };
+
+        if (shape.type !== undefined) {
+            if (SHAPE_TYPES.includes(shape.type)) {
+                shapeElement.setAttribute(this.ATTR_SHAPE_TYPE, shape.type);
+            } else {
+                warnInvalid('shape', 'type', shape.type);
+            }
+        }
+
+        setNumber('width', this.ATTR_SHAPE_WIDTH, shape.width, 0);
+        setNumber('height', this.ATTR_SHAPE_HEIGHT, shape.height, 0);
+        setNumber('cornerRadius', this.ATTR_CORNER_RADIUS, shape.cornerRadius, 0);
+        setNumber('points', this.ATTR_SHAPE_POINTS, shape.points, 3);
+        setNumber('innerRadius', this.ATTR_INNER_RADIUS, shape.innerRadius, 0, 1);
+        setNumber('stripes', this.ATTR_STRIPES, shape.stripes, 1);
+        setNumber('strokeWidth', 'stroke-width', shape.strokeWidth, 0);
+
+        if (shape.stroke !== undefined) {
+            shapeElement.setAttribute('stroke', shape.stroke || 'none');
+        }
+    }
+
+    /**
+     * Draws the primitives of a shape decal from its parameters, with the top left corner of
+     * the shape at the origin of the shape element.
+     *
+     * @param shapeElement - The shape element of a shape decal.
+     */
+    public render(shapeElement: Element): void {
+        const shape = this.get(shapeElement);
+        const { width, height } = shape;
+        const corners = (count: number, radius: (index: number) => number) => Array.from({ length: count }, (_, index) => {
+            const angle = (index / count) * Math.PI * 2 - Math.PI / 2;
+
+            return `${width / 2 + Math.cos(angle) * width / 2 * radius(index)},${height / 2 + Math.sin(angle) * height / 2 * radius(index)}`;
+        }).join(' ');
+        const points = Math.round(shape.points);
+        let elements: Element[];
+
+        switch (shape.type) {
+            case 'roundedRectangle': {
+                const radius = Math.min(shape.cornerRadius, width / 2, height / 2);
+
+                elements = [createSVGElement('rect', { width, height, rx: radius, ry: radius })];
+                break;
+            }
+            case 'ellipse':
+                elements = [createSVGElement('ellipse', { cx: width / 2, cy: height / 2, rx: width / 2, ry: height / 2 })];
+                break;
+            case 'polygon':
+                elements = [createSVGElement('polygon', { points: corners(points, () => 1) })];
+                break;
+            case 'star':
+                elements = [createSVGElement('polygon', { points: corners(points * 2, (index) => index % 2 ? shape.innerRadius : 1) })];
+                break;
+            case 'line':
+                elements = [createSVGElement('line', {
+                    x1: 0,
+                    y1: 0,
+                    x2: width,
+                    y2: height,
+                    stroke: shapeElement.getAttribute('fill') || this.defaultFill,
+                    'stroke-linecap': 'round',
+                })];
+                break;
+            case 'stripe': {
+                const count = Math.round(shape.stripes);
+                const band = height / (count * 2 - 1);
+
+                elements = Array.from({ length: count }, (_, index) => createSVGElement('rect', { y: index * band * 2, width, height: band }));
+                break;
+            }
+            default:
+                elements = [createSVGElement('rect', { width, height })];
+        }
+
+        shapeElement.replaceChildren(...elements);
+    }
+}
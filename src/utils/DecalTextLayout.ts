@@ -0,0 +1,298 @@
+import type { SVGDecalTextAlign, SVGDecalTextPath, SVGDecalTextStyle } from './SVGDecals';
+import { ATTR_NAME, createSVGElement, getDecalDefinitions, removeDecalDefinition, warnInvalid } from './decalElements';
+
+/**
+ * Layout of text decals: lines, typography and text on a path.
+ *
+ * Multi-line text is laid out as one `tspan` per line. Curved text runs along a guide path kept
+ * in the `defs` element of the decal group and referenced by a `textPath` element wrapping the text.
+ */
+export class DecalTextLayout {
+    private readonly ATTR_LINE_HEIGHT = 'lineHeight';
+    private readonly LINE_HEIGHT = 1.2;
+    private readonly ATTR_TEXT_PATH = 'textPath';
+    private readonly ATTR_TEXT_PATH_GUIDE = 'textPathGuide';
+    private readonly ATTR_PATH_RADIUS = 'pathRadius';
+    private readonly ATTR_PATH_DIRECTION = 'pathDirection';
+    private readonly ATTR_PATH_DATA = 'pathData';
+    private readonly TEXT_PATH_RADIUS = 200;
+
+    private fontFamily: string;
+
+    /**
+     * @param fontFamily - Font family of text elements without a `font-family` attribute.
+     */
+    constructor(fontFamily: string) {
+        this.fontFamily = fontFamily;
+    }
+
+    /**
+     * Checks whether an attribute stores text layout, so it is kept when markup is sanitized.
+     *
+     * @param name - The attribute name.
+     */
+    public isStateAttribute(name: string): boolean {
+        return [this.ATTR_LINE_HEIGHT, this.ATTR_PATH_RADIUS, this.ATTR_PATH_DIRECTION, this.ATTR_PATH_DATA].includes(name);
+    }
+
+    /**
+     * Returns the text of a text element, with one line per `tspan`.
+     *
+     * @param textElement - The text element of a text decal.
+     * @returns The text, lines separated by `\n`.
+     */
+    public getContent(textElement: Element): string {
+        const lines = Array.from(textElement.querySelectorAll('tspan'));
+
+        if (!lines.length) return textElement.textContent || '';
+
+        /** Empty lines hold a non-breaking space, so they still move the next line down */
+        return lines.map((line) => line.textContent === '\u00a0' ? '' : line.textContent || '').join('\n');
+    }
+
+    /**
+     * Sets the text of a text element. Multi-line text is laid out as one `tspan` per line,
+     * each starting at the element's x position and moved down by the line height.
+     *
+     * @param textElement - The text element of a text decal.
+     * @param text - The text, lines separated by `\n`.
+     */
+    public setContent(textElement: Element, text: string): void {
+        const textPathElement = textElement.querySelector(`[${ATTR_NAME}="${this.ATTR_TEXT_PATH}"]`);
+
+        /** Text on a path is laid out on a single line */
+        if (textPathElement) {
+            textPathElement.textContent = text.replace(/\n/g, ' ');
+            return;
+        }
+
+        const lines = text.split('\n');
+        const x = textElement.getAttribute('x') || '0';
+        const lineHeight = parseFloat(textElement.getAttribute(this.ATTR_LINE_HEIGHT) || this.LINE_HEIGHT.toString());
+
+        textElement.textContent = '';
+
+        if (lines.length === 1) {
+            textElement.textContent = text;
+            return;
+        }
+
+        lines.forEach((line, index) => {
+            const lineElement = createSVGElement('tspan', { x, dy: index === 0 ? '0' : `${lineHeight}em` }, textElement);
+
+            lineElement.textContent = line || '\u00a0';
+        });
+    }
+
+    /**
+     * Reads the typography of a text element from its attributes.
+     *
+     * @param textElement - The text element of a text decal.
+     * @returns The text style, with defaults for missing attributes.
+     */
+    public getStyle(textElement: Element): SVGDecalTextStyle {
+        const alignments: Record<string, SVGDecalTextAlign> = { start: 'left', middle: 'center', end: 'right' };
+        const fontStyle = textElement.getAttribute('font-style');
+
+        return {
+            fontFamily: textElement.getAttribute('font-family') || this.fontFamily,
+            fontWeight: textElement.getAttribute('font-weight') || 'normal',
+            fontStyle: fontStyle === 'italic' || fontStyle === 'oblique' ? fontStyle : 'normal',
+            letterSpacing: parseFloat(textElement.getAttribute('letter-spacing') || '0'),
+            stroke: textElement.getAttribute('stroke') || 'none',
+            strokeWidth: parseFloat(textElement.getAttribute('stroke-width') || '0'),
+            textAlign: alignments[textElement.getAttribute('text-anchor') || 'start'] || 'left',
+            lineHeight: parseFloat(textElement.getAttribute(this.ATTR_LINE_HEIGHT) || this.LINE_HEIGHT.toString()),
+        };
+    }
+
+    /**
+     * Applies typography to a text element. Invalid values are reported with a warning and skipped.
+     *
+     * @param textElement - The text element of a text decal.
+     * @param style - The style values to change.
+     */
+    public applyStyle(textElement: Element, style: Partial<SVGDecalTextStyle>): void {
+        const anchors: Record<SVGDecalTextAlign, string> = { left: 'start', center: 'middle', right: 'end' };
+
+        if (style.fontFamily !== undefined) {
+            if (style.fontFamily.trim()) {
+                textElement.setAttribute('font-family', style.fontFamily);
+            } else {
+                warnInvalid('text style', 'fontFamily', style.fontFamily);
+            }
+        }
+        if (style.fontWeight !== undefined) {
+            if (/^(normal|bold|bolder|lighter|[1-9]00)$/.test(String(style.fontWeight))) {
+                textElement.setAttribute('font-weight', String(style.fontWeight));
+            } else {
+                warnInvalid('text style', 'fontWeight', style.fontWeight);
+            }
+        }
+        if (style.fontStyle !== undefined) {
+            if (['normal', 'italic', 'oblique'].includes(style.fontStyle)) {
+                textElement.setAttribute('font-style', style.fontStyle);
+            } else {
+                warnInvalid('text style', 'fontStyle', style.fontStyle);
+            }
+        }
+        if (style.letterSpacing !== undefined) {
+            if (Number.isFinite(style.letterSpacing)) {
+                textElement.setAttribute('letter-spacing', style.letterSpacing.toString());
+            } else {
+                warnInvalid('text style', 'letterSpacing', style.letterSpacing);
+            }
+        }
+        if (style.stroke !== undefined) {
+            textElement.setAttribute('stroke', style.stroke || 'none');
+        }
+        if (style.strokeWidth !== undefined) {
+            if (Number.isFinite(style.strokeWidth) && style.strokeWidth >= 0) {
+                textElement.setAttribute('stroke-width', style.strokeWidth.toString());
+            } else {
+                warnInvalid('text style', 'strokeWidth', style.strokeWidth);
+            }
+        }
+        if (style.textAlign !== undefined) {
+            if (style.textAlign in anchors) {
+                textElement.setAttribute('text-anchor', anchors[style.textAlign]);
+            } else {
+                warnInvalid('text style', 'textAlign', style.textAlign);
+            }
+        }
+        if (style.lineHeight !== undefined) {
+            if (Number.isFinite(style.lineHeight) && style.lineHeight > 0) {
+                textElement.setAttribute(this.ATTR_LINE_HEIGHT, style.lineHeight.toString());
+            } else {
+                warnInvalid('text style', 'lineHeight', style.lineHeight);
+            }
+        }
+    }
+
+    /**
+     * Reads the path of a curved text decal.
+     *
+     * @param decal - The decal group.
+     * @returns The text path, or null if the text is straight.
+     */
+    public getPath(decal: Element): SVGDecalTextPath | null {
+        const guideElement = decal.querySelector(`[${ATTR_NAME}="${this.ATTR_TEXT_PATH_GUIDE}"]`);
+        const textPathElement = decal.querySelector(`[${ATTR_NAME}="${this.ATTR_TEXT_PATH}"]`);
+
+        if (!guideElement || !textPathElement) return null;
+
+        return {
+            radius: parseFloat(guideElement.getAttribute(this.ATTR_PATH_RADIUS) || this.TEXT_PATH_RADIUS.toString()),
+            startOffset: parseFloat(textPathElement.getAttribute('startOffset') || '0'),
+            direction: guideElement.getAttribute(this.ATTR_PATH_DIRECTION) === 'counterclockwise' ? 'counterclockwise' : 'clockwise',
+            path: guideElement.getAttribute(this.ATTR_PATH_DATA),
+        };
+    }
+
+    /**
+     * Lays the text of a text decal along a path, or back on straight lines.
+     * Invalid values are reported with a warning and skipped.
+     *
+     * @param decal - The decal group.
+     * @param textElement - The text element of the decal.
+     * @param textPath - The path values to change, or null for straight text.
+     * @param position - The decal position, where straight text starts and the path is moved to.
+     */
+    public applyPath(decal: Element, textElement: Element, textPath: Partial<SVGDecalTextPath> | null, position: { x: number; y: number }): void {
+        const text = this.getContent(textElement);
+        let guideElement = decal.querySelector(`[${ATTR_NAME}="${this.ATTR_TEXT_PATH_GUIDE}"]`);
+        let textPathElement = textElement.querySelector(`[${ATTR_NAME}="${this.ATTR_TEXT_PATH}"]`);
+
+        if (textPath === null) {
+            removeDecalDefinition(guideElement);
+
+            if (textPathElement) {
+                textPathElement.remove();
+                textElement.setAttribute('x', position.x.toString());
+                textElement.setAttribute('y', position.y.toString());
+                this.setContent(textElement, text);
+            }
+
+            return;
+        }
+
+        if (!guideElement || !textPathElement) {
+            removeDecalDefinition(guideElement);
+            guideElement = createSVGElement('path', {
+                [ATTR_NAME]: this.ATTR_TEXT_PATH_GUIDE,
+                [this.ATTR_PATH_RADIUS]: this.TEXT_PATH_RADIUS,
+                [this.ATTR_PATH_DIRECTION]: 'clockwise',
+            }, getDecalDefinitions(decal));
+
+            textElement.textContent = '';
+            textPathElement = createSVGElement('textPath', { [ATTR_NAME]: this.ATTR_TEXT_PATH, startOffset: '50%' }, textElement);
+            this.setContent(textElement, text);
+        }
+
+        if (textPath.radius !== undefined) {
+            if (Number.isFinite(textPath.radius) && textPath.radius > 0) {
+                guideElement.setAttribute(this.ATTR_PATH_RADIUS, textPath.radius.toString());
+            } else {
+                warnInvalid('text path', 'radius', textPath.radius);
+            }
+        }
+        if (textPath.startOffset !== undefined) {
+            if (Number.isFinite(textPath.startOffset)) {
+                textPathElement.setAttribute('startOffset', `${textPath.startOffset}%`);
+            } else {
+                warnInvalid('text path', 'startOffset', textPath.startOffset);
+            }
+        }
+        if (textPath.direction !== undefined) {
+            if (['clockwise', 'counterclockwise'].includes(textPath.direction)) {
+                guideElement.setAttribute(this.ATTR_PATH_DIRECTION, textPath.direction);
+            } else {
+                warnInvalid('text path', 'direction', textPath.direction);
+            }
+        }
+        if (textPath.path !== undefined) {
+            if (textPath.path === null) {
+                guideElement.removeAttribute(this.ATTR_PATH_DATA);
+            } else if (/^\s*[Mm]/.test(textPath.path)) {
+                guideElement.setAttribute(this.ATTR_PATH_DATA, textPath.path);
+            } else {
+                warnInvalid('text path', 'path', textPath.path);
+            }
+        }
+
+        this.layoutPath(decal, position);
+    }
+
+    /**
+     * Builds the guide path of a curved text decal and moves it to the decal position.
+     *
+     * The arc is a full circle whose top (clockwise) or bottom (counterclockwise) touches the
+     * decal position at half its length, so the text never runs off the end of the path.
+     * Text on a path is positioned by the path alone, so the text element loses its x and y.
+     *
+     * @param decal - The decal group.
+     * @param position - The decal position.
+     */
+    public layoutPath(decal: Element, position: { x: number; y: number }): void {
+        const guideElement = decal.querySelector(`[${ATTR_NAME}="${this.ATTR_TEXT_PATH_GUIDE}"]`);
+        const textPathElement = decal.querySelector(`[${ATTR_NAME}="${this.ATTR_TEXT_PATH}"]`);
+        const textElement = textPathElement?.parentElement;
+
+        if (!guideElement || !textPathElement || !textElement) return;
+
+        const id = `${decal.getAttribute(ATTR_NAME)}-path`;
+        const radius = parseFloat(guideElement.getAttribute(this.ATTR_PATH_RADIUS) || this.TEXT_PATH_RADIUS.toString());
+        const clockwise = guideElement.getAttribute(this.ATTR_PATH_DIRECTION) !== 'counterclockwise';
+        const far = clockwise ? radius * 2 : -radius * 2;
+        const sweep = clockwise ? 1 : 0;
+        const d = guideElement.getAttribute(this.ATTR_PATH_DATA)
+            || `M 0 ${far} A ${radius} ${radius} 0 1 ${sweep} 0 0 A ${radius} ${radius} 0 1 ${sweep} 0 ${far}`;
+
+        guideElement.setAttribute('id', id);
+        guideElement.setAttribute('d', d);
+        guideElement.setAttribute('transform', `translate(${position.x}, ${position.y})`);
+        textPathElement.setAttribute('href', `#${id}`);
+        textElement.removeAttribute('x');
+        textElement.removeAttribute('y');
+    }
+}
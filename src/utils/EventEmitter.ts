@@ -1,5 +1,27 @@
 type Callback = (...args: unknown[]) => unknown;
 
+// Map of event names to the arguments passed to their callbacks
+export type EventMap<TEvents> = { [K in keyof TEvents]: unknown[] };
+
+// Event name or `*` for every event, optionally followed by a namespace
+type EventName<TEvents> =
+    | (keyof TEvents & string)
+    | `${keyof TEvents & string}.${string}`
+    | '*'
+    | `*.${string}`;
+
+// Event name without its namespace
+type EventKey<TName extends string> = TName extends `${infer TEvent}.${string}` ? TEvent : TName;
+
+// Wildcard callbacks receive the name of the emitted event before its arguments
+type WildcardCallback<TEvents extends EventMap<TEvents>> =
+    (name: keyof TEvents & string, ...args: TEvents[keyof TEvents]) => unknown;
+
+type EventCallback<TEvents extends EventMap<TEvents>, TName extends string> =
+    EventKey<TName> extends '*'
+        ? WildcardCallback<TEvents>
+        : (...args: TEvents[EventKey<TName> & keyof TEvents]) => unknown;
+
 interface Callbacks {
     [namespace: string]: {
         [event: string]: Callback[];
@@ -12,34 +34,38 @@ interface ResolvedName {
     namespace: string;
 }
 
-export default class EventEmitter {
+export default class EventEmitter<TEvents extends EventMap<TEvents> = Record<string, unknown[]>> {
     private callbacks: Callbacks;
 
+    // Original callbacks of the wrappers added by `once`
+    private onceCallbacks = new WeakMap<Callback, Callback>();
+
     constructor() {
         this.callbacks = {};
         this.callbacks.base = {};
     }
 
-    on(_names: string, callback: Callback): this | false {
+    /**
+     * Adds a callback to one or more events.
+     * @returns A function removing the callback again.
+     */
+    on<TName extends EventName<TEvents>>(_names: TName, callback: EventCallback<TEvents, TName>): () => void {
         // Errors
         if (typeof _names === 'undefined' || _names === '') {
             console.warn('wrong names');
-            return false;
+            return () => {};
         }
 
         if (typeof callback === 'undefined') {
             console.warn('wrong callback');
-            return false;
+            return () => {};
         }
 
         // Resolve names
-        const names = this.resolveNames(_names);
+        const names = this.resolveNames(_names).map((_name) => this.resolveName(_name));
 
         // Each name
-        names.forEach((_name) => {
-            // Resolve name
-            const name = this.resolveName(_name);
-
+        names.forEach((name) => {
             // Create namespace if not exist
             if (!(this.callbacks[name.namespace] instanceof Object)) {
                 this.callbacks[name.namespace] = {};
@@ -51,19 +77,50 @@ export default class EventEmitter {
             }
 
             // Add callback
-            this.callbacks[name.namespace][name.value].push(callback);
+            this.callbacks[name.namespace][name.value].push(callback as Callback);
         });
 
-        return this;
+        return () => {
+            names.forEach((name) => this.removeCallback(name.namespace, name.value, callback as Callback));
+        };
+    }
+
+    /**
+     * Adds a callback that is removed after its first call.
+     * @returns A function removing the callback before it is called.
+     */
+    once<TName extends EventName<TEvents>>(_names: TName, callback: EventCallback<TEvents, TName>): () => void {
+        if (typeof callback === 'undefined') {
+            console.warn('wrong callback');
+            return () => {};
+        }
+
+        const wrapper = (...args: unknown[]) => {
+            unsubscribe();
+
+            return (callback as Callback).apply(this, args);
+        };
+        const unsubscribe = this.on(_names, wrapper as EventCallback<TEvents, TName>);
+
+        this.onceCallbacks.set(wrapper, callback as Callback);
+
+        return unsubscribe;
     }
 
-    off(_names: string): this | false {
+    /**
+     * Removes the callbacks of one or more events or namespaces, or only the given callback.
+     */
+    off(_names: string): this | false;
+    off<TName extends EventName<TEvents>>(_names: TName, callback: EventCallback<TEvents, TName>): this | false;
+    off(_names: string, _callback?: unknown): this | false {
         // Errors
         if (typeof _names === 'undefined' || _names === '') {
             console.warn('wrong name');
             return false;
         }
 
+        const callback = _callback as Callback | undefined;
+
         // Resolve names
         const names = this.resolveNames(_names);
 
@@ -87,12 +144,7 @@ export default class EventEmitter {
                             this.callbacks[namespace] instanceof Object &&
                             this.callbacks[namespace][name.value] instanceof Array
                         ) {
-                            delete this.callbacks[namespace][name.value];
-
-                            // Remove namespace if empty
-                            if (Object.keys(this.callbacks[namespace]).length === 0) {
-                                delete this.callbacks[namespace];
-                            }
+                            this.removeCallback(namespace, name.value, callback);
                         }
                     }
                 }
@@ -102,12 +154,7 @@ export default class EventEmitter {
                     this.callbacks[name.namespace] instanceof Object &&
                     this.callbacks[name.namespace][name.value] instanceof Array
                 ) {
-                    delete this.callbacks[name.namespace][name.value];
-
-                    // Remove namespace if empty
-                    if (Object.keys(this.callbacks[name.namespace]).length === 0) {
-                        delete this.callbacks[name.namespace];
-                    }
+                    this.removeCallback(name.namespace, name.value, callback);
                 }
             }
         });
@@ -115,7 +162,7 @@ export default class EventEmitter {
         return this;
     }
 
-    emit(_name: string, _args?: unknown[]): unknown {
+    emit<TName extends EventName<TEvents>>(_name: TName, _args?: TEvents[EventKey<TName> & keyof TEvents]): unknown {
         // Errors
         if (typeof _name === 'undefined' || _name === '') {
             console.warn('wrong name');
@@ -134,21 +181,26 @@ export default class EventEmitter {
         // Resolve name
         const resolvedName = this.resolveName(name[0]);
 
+        // Call the callbacks of the event, then the wildcard callbacks with the event name
+        const call = (namespace: string) => {
+            [
+                ...(this.callbacks[namespace][resolvedName.value] || []).map((callback) => () => callback.apply(this, args)),
+                ...(this.callbacks[namespace]['*'] || []).map((callback) => () => callback.apply(this, [resolvedName.value, ...args])),
+            ].forEach((apply) => {
+                result = apply();
+
+                if (typeof finalResult === 'undefined') {
+                    finalResult = result;
+                }
+            });
+        };
+
         // Default namespace
         if (resolvedName.namespace === 'base') {
             // Try to find callback in each namespace
             for (const namespace in this.callbacks) {
-                if (
-                    this.callbacks[namespace] instanceof Object &&
-                    this.callbacks[namespace][resolvedName.value] instanceof Array
-                ) {
-                    this.callbacks[namespace][resolvedName.value].forEach((callback) => {
-                        result = callback.apply(this, args);
-
-                        if (typeof finalResult === 'undefined') {
-                            finalResult = result;
-                        }
-                    });
+                if (this.callbacks[namespace] instanceof Object) {
+                    call(namespace);
                 }
             }
         }
@@ -160,21 +212,39 @@ export default class EventEmitter {
                 return this;
             }
 
-            this.callbacks[resolvedName.namespace][resolvedName.value].forEach((callback) => {
-                result = callback.apply(this, args);
-
-                if (typeof finalResult === 'undefined') {
-                    finalResult = result;
-                }
-            });
+            call(resolvedName.namespace);
         }
 
         return finalResult;
     }
 
+    // Removes one callback, or every callback without one, and cleans up empty entries
+    private removeCallback(namespace: string, value: string, callback?: Callback): void {
+        const callbacks = this.callbacks[namespace]?.[value];
+
+        if (!callbacks) return;
+
+        if (callback) {
+            const index = callbacks.findIndex((item) => item === callback || this.onceCallbacks.get(item) === callback);
+
+            if (index !== -1) {
+                callbacks.splice(index, 1);
+            }
+        }
+
+        if (!callback || callbacks.length === 0) {
+            delete this.callbacks[namespace][value];
+        }
+
+        // Remove namespace if empty
+        if (Object.keys(this.callbacks[namespace]).length === 0) {
+            delete this.callbacks[namespace];
+        }
+    }
+
     private resolveNames(_names: string): string[] {
         let names = _names;
-        names = names.replace(/[^a-zA-Z0-9 ,/.]/g, '');
+        names = names.replace(/[^a-zA-Z0-9 ,/.:*]/g, '');
         names = names.replace(/[,/]+/g, ' ');
 
         return names.split(' ');
@@ -0,0 +1,249 @@
+import * as opentype from 'opentype.js';
+
+export interface FontDescriptors {
+    /** CSS font weight of the font file, e.g. `400` or `bold`. */
+    weight?: string;
+    /** CSS font style of the font file. */
+    style?: 'normal' | 'italic' | 'oblique';
+}
+
+interface RegisteredFont {
+    family: string;
+    weight: string;
+    style: string;
+    buffer: ArrayBuffer;
+    /** Font added to `document.fonts` for text measured in the page. */
+    fontFace: FontFace;
+    /** Parsed font used for subsetting, or null if the format is not supported by the parser. */
+    font: opentype.Font | null;
+    /** `@font-face` rules by the characters they were subset to. */
+    rules: Map<string, string>;
+}
+
+/**
+ * Registry of font files embedded into SVG documents.
+ *
+ * SVGs rasterized through an `<img>` cannot use external or page fonts, so every registered
+ * font used by a `text` element is subset to the characters of those elements and inlined as a
+ * base64 `@font-face` rule.
+ */
+export class FontRegistry {
+    private fonts: RegisteredFont[] = [];
+
+    /**
+     * Gets the registered font families.
+     */
+    public get families(): string[] {
+        return Array.from(new Set(this.fonts.map((font) => font.family)));
+    }
+
+    /**
+     * Loads a font file and registers it for a family. A font already registered for the same
+     * family, weight and style is replaced. The font is also added to `document.fonts`, so text
+     * measured in the page uses the same glyphs as the embedded font.
+     *
+     * @param family - The font family name used in `font-family` attributes.
+     * @param source - The URL of the font file or its content.
+     * @param descriptors - The weight and style of the font file.
+     * @returns True if the font was loaded, false otherwise.
+     */
+    public async register(family: string, source: string | ArrayBuffer, descriptors: FontDescriptors = {}): Promise<boolean> {
+        const name = family.trim();
+
+        if (!name) {
+            console.warn('Font family is not specified.');
+            return false;
+        }
+
+        let buffer: ArrayBuffer;
+
+        try {
+            buffer = typeof source === 'string' ? await (await this.fetchFont(source)).arrayBuffer() : source;
+        } catch (error) {
+            console.error(`Failed to load font "${name}".`, error);
+            return false;
+        }
+
+        let font: opentype.Font | null = null;
+
+        try {
+            font = opentype.parse(buffer);
+        } catch {
+            console.warn(`Font "${name}" cannot be subset and is embedded in full.`);
+        }
+
+        const weight = descriptors.weight || 'normal';
+        const style = descriptors.style || 'normal';
+
+        const fontFace = new FontFace(name, buffer, { weight, style });
+
+        try {
+            await fontFace.load();
+        } catch (error) {
+            console.error(`Failed to load font "${name}".`, error);
+            return false;
+        }
+
+        this.remove((item) => item.family === name && item.weight === weight && item.style === style);
+        document.fonts.add(fontFace);
+        this.fonts.push({ family: name, weight, style, buffer, fontFace, font, rules: new Map() });
+
+        return true;
+    }
+
+    /**
+     * Removes the fonts of a family, also from `document.fonts`.
+     *
+     * @param family - The font family name.
+     * @returns True if a font was removed, false otherwise.
+     */
+    public unregister(family: string): boolean {
+        return this.remove((font) => font.family === family.trim());
+    }
+
+    /**
+     * Removes all fonts, also from `document.fonts`.
+     */
+    public clear(): void {
+        this.remove(() => true);
+    }
+
+    /**
+     * Creates the `@font-face` rules for the registered fonts used by the `text` elements of an SVG.
+     *
+     * @param svgElement - The SVG to embed the fonts into.
+     * @returns The CSS rules, or an empty string if no registered font is used.
+     */
+    public getFontFaceCSS(svgElement: SVGSVGElement): string {
+        const characters = new Map<string, Set<string>>();
+
+        svgElement.querySelectorAll('text').forEach((textElement) => {
+            const family = this.getFamily(textElement);
+
+            if (!family) return;
+
+            const familyCharacters = characters.get(family) || new Set<string>();
+
+            Array.from(textElement.textContent || '').forEach((character) => familyCharacters.add(character));
+            characters.set(family, familyCharacters);
+        });
+
+        return this.fonts
+            .filter((font) => characters.has(font.family))
+            .map((font) => this.getFontFaceRule(font, Array.from(characters.get(font.family) || []).sort().join('')))
+            .join('\n');
+    }
+
+    /**
+     * Removes the registered fonts matching a predicate and their faces from `document.fonts`.
+     *
+     * @returns True if a font was removed, false otherwise.
+     */
+    private remove(predicate: (font: RegisteredFont) => boolean): boolean {
+        const removed = this.fonts.filter(predicate);
+
+        removed.forEach((font) => document.fonts.delete(font.fontFace));
+        this.fonts = this.fonts.filter((font) => !removed.includes(font));
+
+        return removed.length > 0;
+    }
+
+    private async fetchFont(url: string): Promise<Response> {
+        const response = await fetch(url);
+
+        if (!response.ok) {
+            throw new Error(`${response.status} ${response.statusText}`);
+        }
+
+        return response;
+    }
+
+    /**
+     * Returns the first family of an element's `font-family` attribute if it is registered.
+     */
+    private getFamily(element: Element): string | null {
+        const fontFamily = element.closest('[font-family]')?.getAttribute('font-family') || '';
+        const family = fontFamily.split(',')[0].trim().replace(/^["']|["']$/g, '');
+
+        return this.fonts.some((font) => font.family === family) ? family : null;
+    }
+
+    private getFontFaceRule(font: RegisteredFont, characters: string): string {
+        const cached = font.rules.get(characters);
+
+        if (cached) return cached;
+
+        const subset = font.font ? this.subsetFont(font.font, characters) : null;
+        const data = this.toBase64(subset || font.buffer);
+        const format = subset ? 'opentype' : this.getFormat(font.buffer);
+        const rule = `@font-face { font-family: "${font.family}"; font-weight: ${font.weight}; font-style: ${font.style}; src: url(data:font/${format === 'truetype' ? 'ttf' : format === 'opentype' ? 'otf' : format};base64,${data}) format("${format}"); }`;
+
+        /** Keep the rules of the latest character sets only, as every edit of the text creates a new one */
+        if (font.rules.size >= 16) {
+            font.rules.delete(font.rules.keys().next().value as string);
+        }
+
+        font.rules.set(characters, rule);
+
+        return rule;
+    }
+
+    /**
+     * Builds a font containing only the glyphs of the given characters.
+     *
+     * @returns The subset font file, or null if it could not be built.
+     */
+    private subsetFont(font: opentype.Font, characters: string): ArrayBuffer | null {
+        const glyphs = [font.glyphs.get(0)];
+        const indices = new Set<number>([0]);
+
+        Array.from(characters).forEach((character) => {
+            const index = font.charToGlyphIndex(character);
+
+            if (index > 0 && !indices.has(index)) {
+                indices.add(index);
+                glyphs.push(font.glyphs.get(index));
+            }
+        });
+
+        try {
+            return new opentype.Font({
+                familyName: font.names.fontFamily?.en || 'Subset',
+                styleName: font.names.fontSubfamily?.en || 'Regular',
+                unitsPerEm: font.unitsPerEm,
+                ascender: font.ascender,
+                descender: font.descender,
+                glyphs,
+            }).toArrayBuffer();
+        } catch (error) {
+            console.warn('Failed to subset font, embedding it in full.', error);
+            return null;
+        }
+    }
+
+    /**
+     * Detects the CSS format of a font file from its signature.
+     */
+    private getFormat(buffer: ArrayBuffer): string {
+        const signature = String.fromCharCode(...new Uint8Array(buffer.slice(0, 4)));
+
+        switch (signature) {
+            case 'wOF2': return 'woff2';
+            case 'wOFF': return 'woff';
+            case 'OTTO': return 'opentype';
+            default: return 'truetype';
+        }
+    }
+
+    private toBase64(buffer: ArrayBuffer): string {
+        const bytes = new Uint8Array(buffer);
+        const chunkSize = 0x8000;
+        let binary = '';
+
+        for (let i = 0; i < bytes.length; i += chunkSize) {
+            binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+        }
+
+        return btoa(binary);
+    }
+}
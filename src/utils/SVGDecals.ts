@@ -11,12 +11,623 @@ THREE.Mesh.prototype.raycast = acceleratedRaycast;
 import EventEmitter from './EventEmitter';
 import { OrbitControls } from 'three/examples/jsm/Addons.js';
 import { SVGTexture } from './SVGTexture';
+import { DecalHistory, DecalHistoryState } from './DecalHistory';
+import { UVIslands } from './UVIslands';
+import { FontRegistry, FontDescriptors } from './FontRegistry';
+import { SVGSanitizer } from './SVGSanitizer';
+import { DecalShapes } from './DecalShapes';
+import { DecalTextLayout } from './DecalTextLayout';
+import { DecalPaints } from './DecalPaints';
+import { DecalEffects } from './DecalEffects';
+import { SVG_NS, ATTR_NAME, warnInvalid } from './decalElements';
+
+export type SVGDecalType = 'text' | 'image' | 'icon' | 'shape';
+
+/**
+ * Horizontal alignment of the lines of a text decal around its position.
+ */
+export type SVGDecalTextAlign = 'left' | 'center' | 'right';
+
+/**
+ * Typography of a text decal.
+ */
+export interface SVGDecalTextStyle {
+    fontFamily: string;
+    /** CSS font weight, e.g. `normal`, `bold` or `700`. */
+    fontWeight: string;
+    fontStyle: 'normal' | 'italic' | 'oblique';
+    /** Extra space between letters in SVG units. */
+    letterSpacing: number;
+    /** Outline color, `none` for no outline. */
+    stroke: string;
+    /** Outline width in SVG units. The outline is painted below the fill, so only its outer half is visible. */
+    strokeWidth: number;
+    textAlign: SVGDecalTextAlign;
+    /** Distance between the baselines of consecutive lines, relative to the font size. */
+    lineHeight: number;
+}
+
+/**
+ * Side of the arc a curved text decal runs along: `clockwise` arches the text over the top of
+ * a circle, `counterclockwise` bends it under the bottom.
+ */
+export type SVGDecalTextPathDirection = 'clockwise' | 'counterclockwise';
+
+/**
+ * Path a text decal is laid along. Text on a path is rendered on a single line.
+ */
+export interface SVGDecalTextPath {
+    /** Radius of the arc in SVG units. Not used by custom paths. */
+    radius: number;
+    /** Position of the text along the path in percent of its length, 50 is the top or bottom of the arc. */
+    startOffset: number;
+    /** Side of the arc the text runs along. Not used by custom paths. */
+    direction: SVGDecalTextPathDirection;
+    /** Custom path data relative to the decal position, or null to lay the text along the arc. */
+    path: string | null;
+}
+
+/**
+ * Color stop of a gradient fill.
+ */
+export interface SVGDecalGradientStop {
+    /** Position of the stop along the gradient, from 0 to 1. */
+    offset: number;
+    color: string;
+    /** Opacity of the stop color, from 0 to 1. */
+    opacity?: number;
+}
+
+/**
+ * Linear gradient across the bounds of the decal.
+ */
+export interface SVGDecalLinearGradient {
+    type: 'linear';
+    /** Direction in degrees, 0 runs from left to right and 90 from top to bottom. */
+    angle: number;
+    stops: SVGDecalGradientStop[];
+}
+
+/**
+ * Radial gradient within the bounds of the decal.
+ */
+export interface SVGDecalRadialGradient {
+    type: 'radial';
+    /** Horizontal center relative to the decal bounds, from 0 to 1. */
+    cx: number;
+    /** Vertical center relative to the decal bounds, from 0 to 1. */
+    cy: number;
+    /** Radius relative to the decal bounds. */
+    radius: number;
+    stops: SVGDecalGradientStop[];
+}
+
+/**
+ * Tile repeated by a pattern fill.
+ */
+export type SVGDecalPatternType = 'stripes' | 'dots' | 'image';
+
+/**
+ * Repeating pattern starting at the decal position.
+ */
+export interface SVGDecalPattern {
+    type: 'pattern';
+    pattern: SVGDecalPatternType;
+    /** Width and height of one tile in SVG units. */
+    size: number;
+    /** Rotation of the pattern in degrees. */
+    angle: number;
+    /** Color of the stripes and dots. */
+    color: string;
+    /** Color behind the tile, `none` for transparent. */
+    background: string;
+    /** Tile of `image` patterns, a `data:image/` URL. Other URLs are rejected, as they are not loaded when the texture is drawn. */
+    image?: string;
+}
+
+/**
+ * Gradient or pattern filling a decal instead of a single color.
+ */
+export type SVGDecalPaint = SVGDecalLinearGradient | SVGDecalRadialGradient | SVGDecalPattern;
+
+/**
+ * Fill of a decal: a color, or a paint whose missing values are taken from the current paint
+ * of the same type, or from defaults.
+ */
+export type SVGDecalFill =
+    | string
+    | (Pick<SVGDecalLinearGradient, 'type'> & Partial<SVGDecalLinearGradient>)
+    | (Pick<SVGDecalRadialGradient, 'type'> & Partial<SVGDecalRadialGradient>)
+    | (Pick<SVGDecalPattern, 'type'> & Partial<SVGDecalPattern>);
+
+/**
+ * How a decal is blended with the decals below it in the same texture.
+ *
+ * Blend modes apply between decals only. The texture is drawn by its own transparent material
+ * over the mesh, so where no decal lies below, a decal is drawn over the fabric as with `normal`,
+ * and darkening or tinting the fabric itself is not supported.
+ */
+export type SVGDecalBlendMode = 'normal' | 'multiply' | 'screen' | 'overlay';
+
+/**
+ * Shadow cast by a decal.
+ */
+export interface SVGDecalShadowEffect {
+    /** Horizontal offset in SVG units. */
+    dx: number;
+    /** Vertical offset in SVG units. */
+    dy: number;
+    /** Blur radius in SVG units. */
+    blur: number;
+    color: string;
+    /** Opacity of the shadow, from 0 to 1. */
+    opacity: number;
+}
+
+/**
+ * Blurred halo around a decal.
+ */
+export interface SVGDecalGlowEffect {
+    /** Blur radius in SVG units. */
+    blur: number;
+    color: string;
+    /** Opacity of the glow, from 0 to 1. */
+    opacity: number;
+}
+
+/**
+ * Solid outline following the outer edge of a decal.
+ */
+export interface SVGDecalOutlineEffect {
+    /** Width in SVG units. */
+    width: number;
+    color: string;
+}
+
+/**
+ * Worn print look, made by cutting a noise texture out of the decal.
+ */
+export interface SVGDecalDistressEffect {
+    /** Share of the decal worn away, from 0 to 1. */
+    amount: number;
+    /** Size of the grain in SVG units. */
+    scale: number;
+    /** Seed of the noise, different seeds wear different spots. */
+    seed: number;
+}
+
+/**
+ * SVG filter effects of a decal, null for effects that are off.
+ */
+export interface SVGDecalEffects {
+    dropShadow: SVGDecalShadowEffect | null;
+    glow: SVGDecalGlowEffect | null;
+    outline: SVGDecalOutlineEffect | null;
+    distress: SVGDecalDistressEffect | null;
+}
+
+/**
+ * Effects accepted by `updateDecal`: missing values are taken from the current effect or from
+ * defaults, null turns an effect off.
+ */
+export type SVGDecalEffectsUpdate = {
+    [K in keyof SVGDecalEffects]?: Partial<NonNullable<SVGDecalEffects[K]>> | null;
+};
+
+/**
+ * Primitive drawn by a shape decal.
+ */
+export type SVGDecalShapeType = 'rectangle' | 'roundedRectangle' | 'ellipse' | 'polygon' | 'star' | 'line' | 'stripe';
+
+/**
+ * Geometry and outline of a shape decal. Shapes are filled with the decal color.
+ */
+export interface SVGDecalShape {
+    type: SVGDecalShapeType;
+    /** Width of the shape in SVG units. */
+    width: number;
+    /** Height of the shape in SVG units. Lines run from the top left to the bottom right corner, 0 draws them horizontally. */
+    height: number;
+    /** Corner radius of rounded rectangles in SVG units. */
+    cornerRadius: number;
+    /** Number of corners of polygons and tips of stars. */
+    points: number;
+    /** Inner radius of stars relative to their outer radius. */
+    innerRadius: number;
+    /** Number of bands of stripes, separated by gaps as high as the bands. */
+    stripes: number;
+    /** Outline color, `none` for no outline. Lines are drawn in the decal color instead. */
+    stroke: string;
+    /** Outline width in SVG units, the thickness of lines. */
+    strokeWidth: number;
+}
+
+/**
+ * Properties of a decal, as returned by `SVGDecals.getDecalProperties()`.
+ */
+export interface SVGDecalProperties {
+    id: string;
+    text: string;
+    color: string;
+    scale: number;
+    /** Horizontal stretch applied on top of `scale`. */
+    scaleX: number;
+    /** Vertical stretch applied on top of `scale`. */
+    scaleY: number;
+    rotate: number;
+    x: number;
+    y: number;
+    /** Whether the decal is mirrored horizontally. */
+    flipX: boolean;
+    /** Whether the decal is mirrored vertically. */
+    flipY: boolean;
+    /** Whether the decal is rendered. */
+    visible: boolean;
+    /** Whether the decal is protected from pointer selection and gestures. */
+    locked: boolean;
+    /** Position of the decal in the paint order (0 is the bottom-most decal). */
+    index: number;
+    /** Typography of text decals, null for other decals. */
+    textStyle: SVGDecalTextStyle | null;
+    /** Path of curved text decals, null for straight text and other decals. */
+    textPath: SVGDecalTextPath | null;
+    /** Geometry of shape decals, null for other decals. */
+    shape: SVGDecalShape | null;
+    /** Gradient or pattern fill, null for decals filled with `color`. */
+    paint: SVGDecalPaint | null;
+    /** Opacity of the decal, from 0 to 1. */
+    opacity: number;
+    /** Blending with the decals below it, not with the fabric. */
+    blendMode: SVGDecalBlendMode;
+    effects: SVGDecalEffects;
+}
+
+/**
+ * Serializable state of a single decal, as produced by `SVGDecals.toJSON()`.
+ */
+export interface SVGDecalData {
+    id: string;
+    type: SVGDecalType;
+    /** Text for text decals, image href for image decals, inner SVG markup for icon decals. Empty for shape decals. */
+    content: string;
+    /** Font size for text decals, width/height for image decals. Not used by icon decals. */
+    size?: number;
+    x: number;
+    y: number;
+    rotate: number;
+    scale: number;
+    scaleX: number;
+    scaleY: number;
+    flipX: boolean;
+    flipY: boolean;
+    color: string;
+    visible: boolean;
+    locked: boolean;
+    /** Position of the decal in the paint order of its surface (0 is the bottom-most decal). */
+    index: number;
+    /** Id of the decal surface the decal is painted on. Missing in version 1 documents. */
+    surface?: string;
+    /** Typography of text decals. */
+    textStyle?: SVGDecalTextStyle;
+    /** Path of curved text decals. */
+    textPath?: SVGDecalTextPath;
+    /** Geometry of shape decals. */
+    shape?: SVGDecalShape;
+    /** Gradient or pattern fill, used instead of `color`. */
+    paint?: SVGDecalPaint;
+    /** Opacity of the decal, from 0 to 1. */
+    opacity?: number;
+    /** Blending with the decals below it, not with the fabric. */
+    blendMode?: SVGDecalBlendMode;
+    effects?: SVGDecalEffects;
+}
+
+/**
+ * Actions that can be bound to keyboard shortcuts.
+ */
+export type SVGDecalsKeyAction =
+    | 'nudgeLeft'
+    | 'nudgeRight'
+    | 'nudgeUp'
+    | 'nudgeDown'
+    | 'nudgeLeftLarge'
+    | 'nudgeRightLarge'
+    | 'nudgeUpLarge'
+    | 'nudgeDownLarge'
+    | 'delete'
+    | 'duplicate'
+    | 'deselect'
+    | 'rotateLeft'
+    | 'rotateRight'
+    | 'scaleUp'
+    | 'scaleDown';
+
+/**
+ * Key combinations bound to each action, e.g. `'Shift+ArrowLeft'` or `'Mod+d'`.
+ * `Mod` stands for Cmd on macOS and Ctrl elsewhere.
+ */
+export type SVGDecalsKeymap = Record<SVGDecalsKeyAction, string[]>;
+
+export const DEFAULT_DECALS_KEYMAP: SVGDecalsKeymap = {
+    nudgeLeft: ['ArrowLeft'],
+    nudgeRight: ['ArrowRight'],
+    nudgeUp: ['ArrowUp'],
+    nudgeDown: ['ArrowDown'],
+    nudgeLeftLarge: ['Shift+ArrowLeft'],
+    nudgeRightLarge: ['Shift+ArrowRight'],
+    nudgeUpLarge: ['Shift+ArrowUp'],
+    nudgeDownLarge: ['Shift+ArrowDown'],
+    delete: ['Delete', 'Backspace'],
+    duplicate: ['Mod+d'],
+    deselect: ['Escape'],
+    rotateLeft: ['['],
+    rotateRight: [']'],
+    scaleUp: ['+', '='],
+    scaleDown: ['-'],
+};
+
+/**
+ * How decal canvases are assigned to the meshes of the model:
+ * - `shared`: a single canvas for the whole model,
+ * - `mesh`: a canvas per mesh,
+ * - `material`: a canvas per material, shared by every mesh using it.
+ */
+export type SVGDecalsSurfaceMode = 'shared' | 'mesh' | 'material';
+
+/**
+ * A decal canvas with its own SVG, texture and decal material.
+ */
+interface DecalSurface {
+    id: string;
+    material: THREE.MeshStandardMaterial;
+    texture: SVGTexture;
+    svgElement: SVGSVGElement | null;
+    uvIslands: UVIslands;
+    /** The original meshes of the model painted by this surface. */
+    meshes: THREE.Mesh[];
+}
+
+/**
+ * Snapping settings used while dragging decals. Distances are in SVG units.
+ */
+export interface SVGDecalsSnapping {
+    /** Whether dragged decals snap at all. */
+    enabled: boolean;
+    /** Grid cell size, 0 disables grid snapping. */
+    grid: number;
+    /** Whether to snap to the vertical and horizontal center lines of the SVG. */
+    center: boolean;
+    /** Whether to snap to the edges and centers of other decals. */
+    decals: boolean;
+    /** Maximum distance at which a snap line attracts the dragged decal. */
+    threshold: number;
+}
+
+export const DEFAULT_DECALS_SNAPPING: SVGDecalsSnapping = {
+    enabled: false,
+    grid: 64,
+    center: true,
+    decals: true,
+    threshold: 8,
+};
+
+/**
+ * Edge or center line used by `SVGDecals.alignDecals()`.
+ */
+export type SVGDecalsAlignment = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+/**
+ * Control handles drawn around the selected decal.
+ */
+export type SVGDecalsControl = 'scale' | 'rotate' | 'delete' | 'duplicate';
+
+/**
+ * Offsets of the control icons, in SVG units, from the bounding box corner each one is attached to:
+ * `scale` to the bottom-left, `rotate` to the top-right, `delete` to the bottom-right and `duplicate` to the top-left corner.
+ */
+export type SVGDecalsControlOffsets = Record<SVGDecalsControl, { x: number; y: number }>;
+
+export const DEFAULT_DECALS_CONTROL_OFFSETS: SVGDecalsControlOffsets = {
+    scale: { x: -30, y: -20 },
+    rotate: { x: 6, y: -4 },
+    delete: { x: -20, y: 4 },
+    duplicate: { x: -30, y: -4 },
+};
+
+/**
+ * Where the control handles of the selected decal are shown:
+ * - `texture`: drawn into the decal SVG, so they follow the surface and its UV mapping,
+ * - `overlay`: HTML elements placed over the canvas at the projected corners of the selection.
+ */
+export type SVGDecalsControlsMode = 'texture' | 'overlay';
+
+/**
+ * Configuration of an `SVGDecals` instance. Every option is optional and invalid values fall back to the defaults.
+ */
+export interface SVGDecalsOptions {
+    /** Width of the decal SVG in SVG units. */
+    width?: number;
+    /** Height of the decal SVG in SVG units. */
+    height?: number;
+    /** Width and height in pixels of the canvas each decal SVG is rasterized into. */
+    textureSize?: number;
+    /** Whether decals share one canvas, or get a canvas per mesh or per material. */
+    surfaceMode?: SVGDecalsSurfaceMode;
+    /** Color of new decals. */
+    defaultFill?: string;
+    /** Font family of new text decals. */
+    fontFamily?: string;
+    /** Font size of new text decals in SVG units. */
+    textSize?: number;
+    /** Width and height of new image decals in SVG units. */
+    imageSize?: number;
+    /** Offsets of the control icons. */
+    controlOffsets?: Partial<SVGDecalsControlOffsets>;
+    /** Whether the control handles are drawn into the texture or shown as an HTML overlay. */
+    controlsMode?: SVGDecalsControlsMode;
+    /** Number of random rays cast to find a spot for decals added without a position. */
+    maxPlacementAttempts?: number;
+    /** Maximum number of undoable steps. */
+    historyLimit?: number;
+    /** Number of grid cells along each UV axis used for the UV island analysis. */
+    islandResolution?: number;
+    /** Whether keyboard shortcuts are enabled. */
+    keyboardShortcuts?: boolean;
+    /** Key combinations overriding the default keymap. */
+    keymap?: Partial<SVGDecalsKeymap>;
+    /** Snapping settings overriding the default ones. */
+    snapping?: Partial<SVGDecalsSnapping>;
+    /** Whether moved, rotated and scaled decals are kept inside the UV island they were placed on. */
+    confineToIslands?: boolean;
+    /** Whether new decals compensate for UV distortion. */
+    distortionCompensation?: boolean;
+    /** Whether the decal under the pointer is outlined in the texture. */
+    hoverOutline?: boolean;
+}
+
+type ResolvedDecalsOptions = Required<Omit<SVGDecalsOptions, 'controlOffsets' | 'keymap' | 'snapping'>> & {
+    controlOffsets: SVGDecalsControlOffsets;
+    keymap: SVGDecalsKeymap;
+    snapping: SVGDecalsSnapping;
+};
+
+const DEFAULT_DECALS_OPTIONS: ResolvedDecalsOptions = {
+    width: 2048,
+    height: 2048,
+    textureSize: 4096,
+    surfaceMode: 'shared',
+    defaultFill: '#7d7d7d',
+    fontFamily: 'sans-serif',
+    textSize: 40,
+    imageSize: 100,
+    controlOffsets: DEFAULT_DECALS_CONTROL_OFFSETS,
+    controlsMode: 'texture',
+    maxPlacementAttempts: 10,
+    historyLimit: 100,
+    islandResolution: 256,
+    keyboardShortcuts: true,
+    keymap: DEFAULT_DECALS_KEYMAP,
+    snapping: DEFAULT_DECALS_SNAPPING,
+    confineToIslands: false,
+    distortionCompensation: false,
+    hoverOutline: false,
+};
+
+/**
+ * Serializable decal document, as produced by `SVGDecals.toJSON()` and consumed by `SVGDecals.loadJSON()`.
+ */
+export interface SVGDecalsDocument {
+    version: number;
+    /** Id of the decal surface that was active when the document was exported. */
+    surface?: string;
+    width: number;
+    height: number;
+    /** The decals of every surface. */
+    decals: SVGDecalData[];
+}
+
+/**
+ * Payload of the 'update' event, emitted whenever the decal SVG changes.
+ */
+export interface SVGDecalsUpdateEvent {
+    /** The event that caused the update, for pointer interactions. */
+    event?: Event;
+    /** The serialized decal SVG after the update. */
+    updatedSVGContent?: string;
+    dragging: boolean;
+    rotating?: boolean;
+    scaling?: boolean;
+    pinching?: boolean;
+    /** Properties of the selected decal, or null if no decal is selected. */
+    props?: SVGDecalProperties | null;
+}
+
+/**
+ * Payload of the 'click' event, emitted when the model is clicked.
+ */
+export interface SVGDecalsClickEvent {
+    /** The clicked UV coordinate. */
+    uv: THREE.Vector2;
+    /** The clicked decal group, or null if no decal was clicked. */
+    svgDecalElement: Element | null;
+}
+
+/**
+ * Payload of the 'history' event, emitted when the undo/redo stack changes.
+ */
+export interface SVGDecalsHistoryEvent {
+    /** Name of the operation that changed the history. */
+    label: string;
+    canUndo: boolean;
+    canRedo: boolean;
+}
+
+/**
+ * Payload of the 'warning' event, emitted when a decal spans several UV islands or empty texture space.
+ */
+export interface SVGDecalsWarningEvent {
+    id: string;
+    type: 'uv-islands';
+    /** The UV islands covered by the decal. */
+    islands: number[];
+    /** Whether the decal also covers texture space no triangle is mapped to. */
+    emptySpace: boolean;
+}
+
+/**
+ * Payload of the 'hover' and 'hoverend' events.
+ */
+export interface SVGDecalsHoverEvent {
+    /** Id of the decal under the pointer, or null when only a control of a multi-selection is hovered. */
+    id: string | null;
+    /** The control under the pointer, or null. */
+    control: SVGDecalsControl | null;
+}
+
+/**
+ * Payload of the 'decal:add', 'decal:remove', 'decal:select' and 'decal:deselect' events.
+ */
+export interface SVGDecalsDecalEvent {
+    id: string;
+}
 
+/**
+ * Pointer gesture applied to the selected decals.
+ */
+export type SVGDecalsGesture = 'drag' | 'rotate' | 'scale';
+
+/**
+ * Payload of the 'gesture:start' and 'gesture:end' events.
+ */
+export interface SVGDecalsGestureEvent {
+    gesture: SVGDecalsGesture;
+    /** Ids of the decals the gesture applies to. */
+    ids: string[];
+}
 
-export class SVGDecals extends EventEmitter {
-    private readonly SVG_NS = 'http://www.w3.org/2000/svg';
+/**
+ * Events emitted by `SVGDecals`, with the arguments passed to their callbacks.
+ */
+export type SVGDecalsEvents = {
+    update: [SVGDecalsUpdateEvent];
+    click: [SVGDecalsClickEvent];
+    surface: [{ id: string }];
+    history: [SVGDecalsHistoryEvent];
+    warning: [SVGDecalsWarningEvent];
+    hover: [SVGDecalsHoverEvent];
+    hoverend: [SVGDecalsHoverEvent];
+    'decal:add': [SVGDecalsDecalEvent];
+    'decal:remove': [SVGDecalsDecalEvent];
+    'decal:select': [SVGDecalsDecalEvent];
+    'decal:deselect': [SVGDecalsDecalEvent];
+    'gesture:start': [SVGDecalsGestureEvent];
+    'gesture:end': [SVGDecalsGestureEvent];
+};
+
+export class SVGDecals extends EventEmitter<SVGDecalsEvents> {
+    private readonly SVG_NS = SVG_NS;
     private readonly DECAL_MESH_PREFIX = 'decalMesh';
-    private readonly ATTR_NAME = 'name';
+    private readonly ATTR_NAME = ATTR_NAME;
     private readonly ATTR_ACTIVE = 'active';
     private readonly ATTR_CONTROLS = 'controls';
     private readonly ATTR_CONTENT = 'content';
@@ -24,16 +635,41 @@ export class SVGDecals extends EventEmitter {
     private readonly ATTR_ICON = 'icon';
     private readonly ATTR_IMAGE = 'image';
     private readonly ATTR_TEXT = 'text';
+    private readonly ATTR_SHAPE = 'shape';
     private readonly ATTR_COLORVAL = 'colorVal';
     private readonly ATTR_POSX = 'posX';
     private readonly ATTR_POSY = 'posY';
     private readonly ATTR_ROTATE = 'rotate';
     private readonly ATTR_SCALE = 'scale';
+    private readonly ATTR_FLIPX = 'flipX';
+    private readonly ATTR_FLIPY = 'flipY';
+    private readonly ATTR_SCALEX = 'scaleX';
+    private readonly ATTR_SCALEY = 'scaleY';
+    private readonly ATTR_VISIBLE = 'visible';
+    private readonly ATTR_LOCKED = 'locked';
+    private readonly ATTR_ISLAND = 'island';
+    private readonly ATTR_SURFACE = 'data-surface';
     private readonly ATTR_CONTROL_ROTATE = 'control-rotate-icon';
     private readonly ATTR_CONTROL_SCALE = 'control-scale-icon';
     private readonly ATTR_CONTROL_DELETE = 'control-delete-icon';
-    private readonly SVG_WIDTH = 2048;
-    private readonly SVG_HEIGHT = 2048;
+    private readonly ATTR_CONTROL_DUPLICATE = 'control-duplicate-icon';
+    private readonly ATTR_SELECTION = 'selection';
+    private readonly ATTR_SELECTION_BOX = 'selection-box';
+    private readonly ATTR_MULTISELECT = 'multiselect';
+    private readonly ATTR_GUIDES = 'guides';
+    private readonly ATTR_OVERLAY_CONTROLS = 'overlayControls';
+    private readonly ATTR_HOVER = 'hover';
+    private readonly ATTR_BLEND_MODE = 'blendMode';
+    private readonly OVERLAY_HANDLE_SIZE = 28;
+    private readonly SVG_WIDTH: number;
+    private readonly SVG_HEIGHT: number;
+    private readonly DOCUMENT_VERSION = 2;
+    /** Format of generated decal ids, the only ids accepted from documents */
+    private readonly DECAL_ID_PATTERN = /^decal-[a-z0-9_-]+$/i;
+    private readonly NUDGE_STEP = 1;
+    private readonly NUDGE_STEP_LARGE = 10;
+    private readonly ROTATE_STEP = 15;
+    private readonly SCALE_STEP = 1.1;
 
     private scene: THREE.Scene;
     private mainModel: THREE.Object3D | null = null;
@@ -42,14 +678,17 @@ export class SVGDecals extends EventEmitter {
     private renderer: THREE.WebGLRenderer;
     private controls: OrbitControls;
     private svgElement: SVGSVGElement | null = null;
-    private maxAttemps = 10;
+    private maxAttemps: number;
     private interactionEnabled = false;
     private placeDecalMode = false;
     private dragging = false;
     private rotating = false;
     private scaling = false;
     private deleting = false;
+    private duplicating = false;
+    private pinching = false;
     private updating = false;
+    private confining = false;
     private startDragCoordinates: THREE.Vector2 | null = null;
     private savedRotateAngle: number = 0;
     private startRotateAngle: number = 0;
@@ -57,8 +696,23 @@ export class SVGDecals extends EventEmitter {
     private distanceFromCenterOnStart: number = 0;
     private startScalePos: {x: number, y: number} = {x: 0, y: 0};
     private startScaleCenter: {x: number, y: number} = {x: 0, y: 0};
-    private decalSVGInitial = `
-            <svg xmlns="${this.SVG_NS}" width="${this.SVG_WIDTH}" height="${this.SVG_HEIGHT}" fill="none" viewBox="0 0 2048 2048" version="1.1" xml:space="preserve">
+    private startDragUV: THREE.Vector2 | null = null;
+    private activePointers = new Map<number, {x: number, y: number}>();
+    private pinchStartDistance: number = 0;
+    private pinchStartAngle: number = 0;
+    private selectionPivot: {x: number, y: number} = {x: 0, y: 0};
+    private selectionStart: {
+        decal: SVGGraphicsElement;
+        x: number;
+        y: number;
+        rotate: number;
+        scale: number;
+        centerX: number;
+        centerY: number;
+    }[] = [];
+    private get decalSVGInitial(): string {
+        return `
+            <svg xmlns="${this.SVG_NS}" width="${this.SVG_WIDTH}" height="${this.SVG_HEIGHT}" fill="none" viewBox="0 0 ${this.SVG_WIDTH} ${this.SVG_HEIGHT}" version="1.1" xml:space="preserve">
                 <style>
                     .dashed-border {
                         outline: 1px dashed black;
@@ -69,12 +723,98 @@ export class SVGDecals extends EventEmitter {
                     [${this.ATTR_ACTIVE}="true"] [${this.ATTR_NAME}="${this.ATTR_CONTROLS}"] {
                         display: block;
                     }
+                    [${this.ATTR_NAME}="${this.ATTR_SELECTION}"] {
+                        display: none;
+                    }
+                    g[${this.ATTR_NAME}*="decal"][${this.ATTR_VISIBLE}="false"] {
+                        display: none;
+                    }
+                    [${this.ATTR_MULTISELECT}="true"] [${this.ATTR_NAME}="${this.ATTR_SELECTION}"],
+                    [${this.ATTR_MULTISELECT}="true"] [${this.ATTR_NAME}="${this.ATTR_SELECTION}"] [${this.ATTR_NAME}="${this.ATTR_CONTROLS}"] {
+                        display: block;
+                    }
+                    [${this.ATTR_MULTISELECT}="true"] [${this.ATTR_ACTIVE}="true"] [${this.ATTR_NAME}="${this.ATTR_CONTROLS}"] {
+                        display: none;
+                    }
+                    [${this.ATTR_OVERLAY_CONTROLS}="true"] [${this.ATTR_NAME}="${this.ATTR_CONTROLS}"] {
+                        display: none !important;
+                    }
+                    [${this.ATTR_HOVER}="true"]:not([${this.ATTR_ACTIVE}="true"]) [${this.ATTR_NAME}="${this.ATTR_CONTAINER}"] {
+                        outline: 1px dotted black;
+                    }
+                    [${this.ATTR_NAME}="${this.ATTR_GUIDES}"] line {
+                        stroke: magenta;
+                        stroke-width: 2;
+                        stroke-dasharray: 8 4;
+                    }
                 </style>
             </svg>
         `;
-    private decalMaterial: THREE.MeshStandardMaterial;
+    }
     private decalSVGTexture: SVGTexture | null = null;
+    private surfaces = new Map<string, DecalSurface>();
+    private surfaceByObject = new Map<THREE.Object3D, DecalSurface>();
+    private activeSurfaceId = '';
     private XMLSerializer = new XMLSerializer();
+    private history: DecalHistory;
+    private historyDepth = 0;
+    private historyLabel = '';
+    private historySnapshot: Map<string, string> | null = null;
+    private historySurface = '';
+    private historyMergeKey: string | undefined;
+    /** Number of the open interaction, e.g. a slider drag, or null if none is open */
+    private interaction: number | null = null;
+    private interactionCount = 0;
+    /** Markup of the decals at the end of the latest step, shared by consecutive entries to avoid copies */
+    private historyMarkup = new Map<string, string>();
+    private gestureHistoryOpen = false;
+    private keyboardEnabled = true;
+    private keymap: SVGDecalsKeymap = { ...DEFAULT_DECALS_KEYMAP };
+    private snapping: SVGDecalsSnapping = { ...DEFAULT_DECALS_SNAPPING };
+    private uvIslands = new UVIslands();
+    private confineIslands = false;
+    private islandWarnings = new Map<string, string>();
+    private distortionCompensation = false;
+    private defaultFill: string;
+    private fontFamily: string;
+    private fonts = new FontRegistry();
+    private textLayout: DecalTextLayout;
+    private shapes: DecalShapes;
+    private paints: DecalPaints;
+    private effects = new DecalEffects();
+    /** Cleans imported markup, keeping the attributes decal groups store their state in */
+    private sanitizer = new SVGSanitizer((name) => [
+        this.ATTR_NAME, this.ATTR_ACTIVE, this.ATTR_COLORVAL, this.ATTR_POSX, this.ATTR_POSY, this.ATTR_ROTATE, this.ATTR_SCALE, this.ATTR_FLIPX, this.ATTR_FLIPY,
+        this.ATTR_SCALEX, this.ATTR_SCALEY, this.ATTR_VISIBLE, this.ATTR_LOCKED, this.ATTR_ISLAND, this.ATTR_BLEND_MODE,
+    ].includes(name)
+        || this.textLayout.isStateAttribute(name)
+        || this.shapes.isStateAttribute(name)
+        || this.paints.isStateAttribute(name)
+        || this.effects.isStateAttribute(name));
+    private textSize: number;
+    private imageSize: number;
+    private textureSize: number;
+    private islandResolution: number;
+    private controlOffsets: SVGDecalsControlOffsets;
+    private overlayControls = false;
+    private overlayElement: HTMLDivElement | null = null;
+    private overlayHandles = new Map<SVGDecalsControl, HTMLElement>();
+    private overlayCorners = new Map<SVGDecalsControl, { object: THREE.Mesh; uv: THREE.Vector2; point: THREE.Vector3 }>();
+    private overlayKey = '';
+    private overlayFrame = 0;
+    /** Raycaster of the overlay visibility checks, `raycaster` has its range narrowed by decal placement */
+    private overlayRaycaster = new THREE.Raycaster();
+    private hoverOutline = false;
+    private hoveredDecal: string | null = null;
+    private hoveredControl: SVGDecalsControl | null = null;
+    private hoverEvent: PointerEvent | null = null;
+    private hoverFrame = 0;
+    private rotateCursor = '';
+    private decalIds: string[] = [];
+    private selectedIds: string[] = [];
+    private gesture: SVGDecalsGesture | null = null;
+    private windowListeners: { type: string; listener: EventListener; options?: AddEventListenerOptions }[] = [];
+    private canvasTabIndexAdded = false;
 
     /**
      * Create an instance of SVGDecals.
@@ -83,8 +823,9 @@ export class SVGDecals extends EventEmitter {
      * @param camera - The THREE.PerspectiveCamera instance.
      * @param controls - The OrbitControls instance.
      * @param renderer - The THREE.WebGLRenderer instance.
+     * @param options - Configuration of the instance, see `SVGDecalsOptions`.
      */
-    constructor(scene: THREE.Scene, model: THREE.Object3D, camera: THREE.PerspectiveCamera, controls: OrbitControls, renderer: THREE.WebGLRenderer) {
+    constructor(scene: THREE.Scene, model: THREE.Object3D, camera: THREE.PerspectiveCamera, controls: OrbitControls, renderer: THREE.WebGLRenderer, options: SVGDecalsOptions = {}) {
         super();
         this.scene = scene;
         this.mainModel = model;
@@ -92,26 +833,54 @@ export class SVGDecals extends EventEmitter {
         this.renderer = renderer;
         this.controls = controls;
         this.raycaster.firstHitOnly = true;
-
-        /** Material for the decal meshes. */
-        this.decalMaterial = new THREE.MeshStandardMaterial({
-            name: 'decalMaterial',
-            transparent: true,
-            opacity: 1,
-            visible: true,
-        });
-        /** SVGTexture instance for the decal. */
-        this.decalSVGTexture = new SVGTexture(this.decalSVGInitial, this.decalMaterial);
+        this.overlayRaycaster.firstHitOnly = true;
+
+        const settings = this.validateOptions(options);
+        const surfaceMode = settings.surfaceMode;
+
+        this.SVG_WIDTH = settings.width;
+        this.SVG_HEIGHT = settings.height;
+        this.textureSize = settings.textureSize;
+        this.defaultFill = settings.defaultFill;
+        this.fontFamily = settings.fontFamily;
+        this.textSize = settings.textSize;
+        this.imageSize = settings.imageSize;
+        this.textLayout = new DecalTextLayout(settings.fontFamily);
+        this.shapes = new DecalShapes(settings.imageSize, settings.defaultFill);
+        this.paints = new DecalPaints(settings.defaultFill, (href) => this.sanitizer.isInlineImage(href));
+        this.controlOffsets = settings.controlOffsets;
+        this.maxAttemps = settings.maxPlacementAttempts;
+        this.history = new DecalHistory(settings.historyLimit);
+        this.islandResolution = settings.islandResolution;
+        this.keyboardEnabled = settings.keyboardShortcuts;
+        this.keymap = settings.keymap;
+        this.snapping = settings.snapping;
+        this.confineIslands = settings.confineToIslands;
+        this.distortionCompensation = settings.distortionCompensation;
+        this.hoverOutline = settings.hoverOutline;
+
+        const surfaceByMaterial = new Map<THREE.Material, DecalSurface>();
 
         console.time('computeBoundsTree');
 
         /** Traverse the main model and create decal meshes for each child mesh. */
         this.mainModel.traverse((child) => {
-            if (child instanceof THREE.Mesh && child.parent) {
+            if (child instanceof THREE.Mesh && child.parent && !this.surfaceByObject.has(child)) {
+                const material: THREE.Material = Array.isArray(child.material) ? child.material[0] : child.material;
+                let surface: DecalSurface | undefined;
+
+                if (surfaceMode === 'shared') {
+                    surface = this.surfaces.get('default') || this.createSurface('default');
+                } else if (surfaceMode === 'material') {
+                    surface = surfaceByMaterial.get(material) || this.createSurface(material.name || material.uuid);
+                    surfaceByMaterial.set(material, surface);
+                } else {
+                    surface = this.createSurface(child.name || child.uuid);
+                }
+
                 const decalMesh = child.clone();
 
-                decalMesh.material = this.decalMaterial;
-                decalMesh.material.map.flipY = false;
+                decalMesh.material = surface.material;
                 // decalMesh.material.visible = false;
                 decalMesh.name = `${child.name}-${this.DECAL_MESH_PREFIX}`;
                 
@@ -119,13 +888,20 @@ export class SVGDecals extends EventEmitter {
 
                 child.geometry.computeBoundsTree();
                 decalMesh.geometry.computeBoundsTree();
+
+                surface.meshes.push(child);
+                surface.uvIslands.addGeometry(child.geometry);
+                this.surfaceByObject.set(child, surface);
+                this.surfaceByObject.set(decalMesh, surface);
             }
         });
 
         console.timeEnd('computeBoundsTree');
 
-        this.svgElement = this.decalSVGTexture?.getSVGElement() || null;
+        this.useSurface(this.surfaces.values().next().value || this.createSurface('default'));
         this.initEventListeners();
+        this.initKeyboardListeners();
+        this.controlsMode = settings.controlsMode;
     }
     /**
      * Gets or sets whether decal interactions are enabled.
@@ -136,6 +912,9 @@ export class SVGDecals extends EventEmitter {
     public set decalInteractionsEnabled(value: boolean) {
         this.interactionEnabled = value;
         if (!value) {
+            cancelAnimationFrame(this.hoverFrame);
+            this.hoverEvent = null;
+            this.setHover(null, null);
             this.deactivateAllDecals();
         }
     }
@@ -151,28 +930,117 @@ export class SVGDecals extends EventEmitter {
     }
 
     /**
-     * Deletes the currently active decal.
+     * Gets or sets whether keyboard shortcuts are enabled.
+     * Shortcuts only react while the renderer canvas or its host container has focus.
      */
-    public deleteDecal(id?: string): void {
-        const decal = this.svgElement?.querySelector(`[${this.ATTR_NAME}="${id}"]`);
+    public get keyboardShortcutsEnabled(): boolean {
+        return this.keyboardEnabled;
+    }
+    public set keyboardShortcutsEnabled(value: boolean) {
+        this.keyboardEnabled = value;
+    }
 
-        if (decal) {
-            decal.remove();
-        } else {
-            const activeDecal = this.svgElement?.querySelector(`g[${this.ATTR_NAME}*="decal"][${this.ATTR_ACTIVE}="true"]`);
+    /**
+     * Gets or sets whether dragged decals snap to the grid, the SVG center lines and other decals.
+     */
+    public get snappingEnabled(): boolean {
+        return this.snapping.enabled;
+    }
+    public set snappingEnabled(value: boolean) {
+        this.snapping.enabled = value;
+    }
+
+    /**
+     * Gets or sets whether decals are kept inside the UV island they were placed on, however they are moved, rotated or scaled.
+     */
+    public get confineToIslands(): boolean {
+        return this.confineIslands;
+    }
+    public set confineToIslands(value: boolean) {
+        this.confineIslands = value;
+    }
+
+    /**
+     * Gets or sets whether new decals are rotated and stretched to look upright and undistorted
+     * on the surface from the current camera, compensating for stretched or rotated UVs.
+     */
+    public get distortionCompensationEnabled(): boolean {
+        return this.distortionCompensation;
+    }
+    public set distortionCompensationEnabled(value: boolean) {
+        this.distortionCompensation = value;
+    }
+
+    /**
+     * Gets or sets where the control handles of the selected decal are shown.
+     * In `overlay` mode the handles are hidden in the texture, so it can be exported with a decal selected.
+     */
+    public get controlsMode(): SVGDecalsControlsMode {
+        return this.overlayControls ? 'overlay' : 'texture';
+    }
+    public set controlsMode(value: SVGDecalsControlsMode) {
+        this.overlayControls = value === 'overlay';
+
+        this.surfaces.forEach((surface) => {
+            surface.svgElement?.setAttribute(this.ATTR_OVERLAY_CONTROLS, String(this.overlayControls));
+        });
 
-            activeDecal?.remove();
+        if (this.overlayControls) {
+            this.createOverlay();
+        } else {
+            this.removeOverlay();
         }
 
         this.decalSVGTexture?.updateSVGTexture();
     }
 
+    /**
+     * Gets whether there is a decal edit that can be undone.
+     */
+    public get canUndo(): boolean {
+        return this.history.canUndo;
+    }
+
+    /**
+     * Gets whether there is an undone decal edit that can be redone.
+     */
+    public get canRedo(): boolean {
+        return this.history.canRedo;
+    }
+
+    /**
+     * Gets the font families registered with `registerFont`.
+     */
+    public get fontFamilies(): string[] {
+        return this.fonts.families;
+    }
+
+    /**
+     * Deletes a decal by its ID, or every selected decal when no matching ID is given.
+     */
+    public deleteDecal(id?: string): void {
+        this.recordHistory('deleteDecal', () => {
+            const decal = id !== undefined ? this.svgElement?.querySelector(`[${this.ATTR_NAME}="${CSS.escape(id)}"]`) : null;
+
+            if (decal) {
+                decal.remove();
+            } else {
+                this.getSelectedDecals()
+                    .filter((activeDecal) => !this.isDecalLocked(activeDecal))
+                    .forEach((activeDecal) => activeDecal.remove());
+            }
+
+            this.updateSelectionBox();
+            this.decalSVGTexture?.updateSVGTexture();
+        });
+    }
+
     /**
      * Selects a decal by its ID and updates the controls position.
      * @param id decal name
      */
     public selectDecal(id: string): void {
-        const decal = this.svgElement?.querySelector(`[${this.ATTR_NAME}="${id}"]`) as SVGGraphicsElement | null;
+        const decal = this.svgElement?.querySelector(`[${this.ATTR_NAME}="${CSS.escape(id)}"]`) as SVGGraphicsElement | null;
 
         if (decal && this.svgElement) {
             this.activateDecal(decal);
@@ -194,7 +1062,124 @@ export class SVGDecals extends EventEmitter {
     }
 
     /**
-     * Updates a decal's properties.
+     * Selects several decals at once. Drag, rotate and scale gestures then apply to the
+     * whole selection around the center of its combined bounding box.
+     * @param ids decal names, unknown names are ignored
+     */
+    public selectDecals(ids: string[]): void {
+        if (!this.svgElement) return;
+
+        const decals = this.getDecalElements().filter((decal) => ids.includes(decal.getAttribute(this.ATTR_NAME) || ''));
+
+        this.deactivateAllDecals();
+        decals.forEach((decal) => this.activateDecal(decal, true));
+        decals.forEach((decal) => this.updateControlsPosition(decal));
+        this.decalSVGTexture?.updateSVGTexture();
+
+        const actualProps = decals.length ? this.getDecalProperties(decals[0]) : null;
+        const updatedSVGContent = this.XMLSerializer.serializeToString(this.svgElement);
+
+        this.emit('update', [{
+            updatedSVGContent,
+            dragging: this.dragging,
+            rotating: this.rotating,
+            scaling: this.scaling,
+            props: actualProps
+        }]);
+    }
+
+    /**
+     * Returns the names of all selected decals in paint order.
+     * @returns An array of decal names.
+     */
+    public getSelectedDecalIds(): string[] {
+        return this.getSelectedDecals().map((decal) => decal.getAttribute(this.ATTR_NAME) || '');
+    }
+
+    /**
+     * Moves a decal one step up in the paint order.
+     * @param id decal name
+     * @returns True if the decal was found.
+     */
+    public bringForward(id: string): boolean {
+        const index = this.getDecalIndex(id);
+
+        return index !== -1 && this.setDecalIndex(id, index + 1);
+    }
+
+    /**
+     * Moves a decal one step down in the paint order.
+     * @param id decal name
+     * @returns True if the decal was found.
+     */
+    public sendBackward(id: string): boolean {
+        const index = this.getDecalIndex(id);
+
+        return index !== -1 && this.setDecalIndex(id, Math.max(0, index - 1));
+    }
+
+    /**
+     * Moves a decal above all other decals.
+     * @param id decal name
+     * @returns True if the decal was found.
+     */
+    public bringToFront(id: string): boolean {
+        return this.setDecalIndex(id, this.getDecalElements().length - 1);
+    }
+
+    /**
+     * Moves a decal below all other decals.
+     * @param id decal name
+     * @returns True if the decal was found.
+     */
+    public sendToBack(id: string): boolean {
+        return this.setDecalIndex(id, 0);
+    }
+
+    /**
+     * Moves a decal to a position in the paint order, where 0 is the bottom-most decal.
+     * Out of range indices are clamped.
+     * @param id decal name
+     * @param index the new position of the decal
+     * @returns True if the decal was found.
+     */
+    public setDecalIndex(id: string, index: number): boolean {
+        if (!this.svgElement) return false;
+
+        const decal = this.getDecalElements().find((el) => el.getAttribute(this.ATTR_NAME) === id);
+
+        if (!decal) {
+            console.warn(`Decal ${id} not found.`);
+            return false;
+        }
+
+        this.recordHistory('setDecalIndex', () => {
+            const others = this.getDecalElements().filter((el) => el !== decal);
+            const targetIndex = THREE.MathUtils.clamp(Math.round(index), 0, others.length);
+
+            if (targetIndex < others.length) {
+                others[targetIndex].before(decal);
+            } else if (others.length) {
+                others[others.length - 1].after(decal);
+            }
+        });
+
+        this.decalSVGTexture?.updateSVGTexture();
+
+        this.emit('update', [{
+            updatedSVGContent: this.XMLSerializer.serializeToString(this.svgElement),
+            dragging: this.dragging,
+            rotating: this.rotating,
+            scaling: this.scaling,
+            props: this.getDecalProperties(decal)
+        }]);
+
+        return true;
+    }
+
+    /**
+     * Updates a decal's properties. Each call is an undoable step, unless it is merged into the
+     * previous one during an interaction, see `beginInteraction()`.
      * @param decalName - The name of the decal to update.
      * @param properties - The properties to update.
      * @returns The updated SVG content string or null.
@@ -202,111 +1187,211 @@ export class SVGDecals extends EventEmitter {
     public updateDecal(decalName: string, properties: {
         x?: number;
         y?: number;
-        fill?: string;
+        fill?: SVGDecalFill;
         rotate?: number;
         scale?: number;
+        scaleX?: number;
+        scaleY?: number;
+        flipX?: boolean;
+        flipY?: boolean;
         text?: string;
+        textStyle?: Partial<SVGDecalTextStyle>;
+        textPath?: Partial<SVGDecalTextPath> | null;
+        shape?: Partial<SVGDecalShape>;
+        opacity?: number;
+        blendMode?: SVGDecalBlendMode;
+        effects?: SVGDecalEffectsUpdate;
+        visible?: boolean;
+        locked?: boolean;
     }): string | null {
-        if (!this.svgElement) {
-            console.warn('SVG element is not available.');
-            return null;
-        }
-
-        const decal = this.svgElement.querySelector(`[${this.ATTR_NAME}="${decalName}"]`);
-        const contentElement = decal?.querySelector(`[${this.ATTR_NAME}="${this.ATTR_CONTENT}"]`);
+        /** Consecutive updates of the same properties of a decal during one interaction are merged into one step */
+        const mergeKey = this.interaction !== null
+            ? `updateDecal:${this.interaction}:${decalName}:${Object.keys(properties).sort().join(',')}`
+            : undefined;
+
+        return this.recordHistory('updateDecal', () => {
+            if (!this.svgElement) {
+                console.warn('SVG element is not available.');
+                return null;
+            }
 
-        if (decal instanceof SVGGraphicsElement && contentElement instanceof SVGGraphicsElement) {
-            Array.from(contentElement.children).forEach((child) => {
-                if (child instanceof SVGGraphicsElement) {
-                    /** Set X Position */
-                    if (properties.x) {
-                        child.setAttribute('x', properties.x?.toString());
-                        decal.setAttribute(this.ATTR_POSX, properties.x.toString());
-                    }
-                    /** Set Y Position */
-                    if (properties.y) {
-                        child.setAttribute('y', properties.y?.toString());
-                        decal.setAttribute(this.ATTR_POSY, properties.y.toString());                        
-                    }
-                    /** Set decal Color */
-                    if (properties.fill) {
-                        if (child.tagName === 'text') {
-                            child.setAttribute('fill', properties.fill);
-                        } else if (child.tagName === 'g' && child.getAttribute(this.ATTR_NAME) === this.ATTR_ICON) {
-                            Array.from(child.children).forEach((iconChild) => {
-                                if (properties.fill && iconChild instanceof SVGElement) {
-                                    const fillAttr = iconChild.getAttribute('fill');
-                                    const strokeAttr = iconChild.getAttribute('stroke');
-
-                                    if (fillAttr && fillAttr !== 'none') {
-                                        iconChild.setAttribute('fill', properties.fill);
-                                    } else if (strokeAttr && strokeAttr !== 'none') {
-                                        iconChild.setAttribute('stroke', properties.fill);
-                                        iconChild.setAttribute('fill', 'none');
-                                    }
-                                }
-                            });
+            const decal = this.svgElement.querySelector(`[${this.ATTR_NAME}="${CSS.escape(decalName)}"]`);
+            const contentElement = decal?.querySelector(`[${this.ATTR_NAME}="${this.ATTR_CONTENT}"]`);
+
+            if (decal instanceof SVGGraphicsElement && contentElement instanceof SVGGraphicsElement) {
+                const previousPosition = this.getDecalPosition(decal);
+                /** Gradients and patterns are defined in the decal and referenced by the fill */
+                const paint = properties.fill ? this.paints.apply(decal, properties.fill) : null;
+
+                Array.from(contentElement.children).forEach((child) => {
+                    if (child instanceof SVGGraphicsElement) {
+                        /** Set X Position */
+                        if (properties.x !== undefined) {
+                            child.setAttribute('x', properties.x.toString());
+                            child.querySelectorAll('tspan').forEach((line) => line.setAttribute('x', properties.x!.toString()));
+                            decal.setAttribute(this.ATTR_POSX, properties.x.toString());
+                        }
+                        /** Set Y Position */
+                        if (properties.y !== undefined) {
+                            child.setAttribute('y', properties.y.toString());
+                            decal.setAttribute(this.ATTR_POSY, properties.y.toString());                        
                         }
+                        /** Set decal Color */
+                        if (paint) {
+                            if (child.tagName === 'text') {
+                                child.setAttribute('fill', paint.fill);
+                            } else if (child.tagName === 'g' && child.getAttribute(this.ATTR_NAME) === this.ATTR_ICON) {
+                                Array.from(child.children).forEach((iconChild) => {
+                                    if (iconChild instanceof SVGElement) {
+                                        const fillAttr = iconChild.getAttribute('fill');
+                                        const strokeAttr = iconChild.getAttribute('stroke');
+
+                                        if (fillAttr && fillAttr !== 'none') {
+                                            iconChild.setAttribute('fill', paint.fill);
+                                        } else if (strokeAttr && strokeAttr !== 'none') {
+                                            iconChild.setAttribute('stroke', paint.fill);
+                                            iconChild.setAttribute('fill', 'none');
+                                        }
+                                    }
+                                });
+                            } else if (child.tagName === 'g' && child.getAttribute(this.ATTR_NAME) === this.ATTR_SHAPE) {
+                                child.setAttribute('fill', paint.fill);
+                            }
                         
-                        decal.setAttribute(this.ATTR_COLORVAL, properties.fill.toString());
-                    }
-                    /** Update Text */
-                    if (child.tagName === 'text' && properties.text) {
-                        child.textContent = properties.text;
+                            decal.setAttribute(this.ATTR_COLORVAL, paint.color);
+                        }
+                        /** Update Text Style, laying the lines out again for the new line height */
+                        if (child.tagName === 'text' && properties.textStyle) {
+                            this.textLayout.applyStyle(child, properties.textStyle);
+
+                            if (properties.textStyle.lineHeight !== undefined && !properties.text) {
+                                this.textLayout.setContent(child, this.textLayout.getContent(child));
+                            }
+                        }
+                        /** Update Text */
+                        if (child.tagName === 'text' && properties.text) {
+                            this.textLayout.setContent(child, properties.text);
+                        }
+                        /** Update Text Path, null puts the text back on straight lines */
+                        if (child.tagName === 'text' && properties.textPath !== undefined) {
+                            this.textLayout.applyPath(decal, child, properties.textPath, this.getDecalPosition(decal));
+                        }
+                        /** Update Shape, redrawn for a new color as lines are stroked with it */
+                        if (child.tagName === 'g' && child.getAttribute(this.ATTR_NAME) === this.ATTR_SHAPE && (properties.shape || paint)) {
+                            if (properties.shape) {
+                                this.shapes.apply(child, properties.shape);
+                            }
+
+                            this.shapes.render(child);
+                        }
+                        /** Set XY Position for icon and shape decals */
+                        if (child.tagName === 'g' && [this.ATTR_ICON, this.ATTR_SHAPE].includes(child.getAttribute(this.ATTR_NAME) || '')) {
+                            const x = properties.x ?? parseFloat(decal.getAttribute(this.ATTR_POSX) || '0');
+                            const y = properties.y ?? parseFloat(decal.getAttribute(this.ATTR_POSY) || '0');
+
+                            child.setAttribute('transform', `translate(${x}, ${y})`);
+                        }
                     }
-                    /** Set XY Position for icon decal */
-                    if (child.tagName === 'g' && child.getAttribute(this.ATTR_NAME) === this.ATTR_ICON) {
-                        const x = properties.x || parseFloat(decal.getAttribute(this.ATTR_POSX) || '0');
-                        const y = properties.y || parseFloat(decal.getAttribute(this.ATTR_POSY) || '0');
+                });
 
-                        child.setAttribute('transform', `translate(${x}, ${y})`);
+                /** Move the text path and pattern along with the decal */
+                this.textLayout.layoutPath(decal, this.getDecalPosition(decal));
+                this.layoutPaint(decal);
+                this.effects.layout(decal);
+
+                /** Update Scaling, Mirroring and Rotate */
+
+                const rotate = (properties.rotate !== undefined) ? properties.rotate : decal.getAttribute(this.ATTR_ROTATE) || 0;
+                const scale = properties.scale ?? parseFloat(decal.getAttribute(this.ATTR_SCALE) || '1');
+                const scaleX = properties.scaleX ?? parseFloat(decal.getAttribute(this.ATTR_SCALEX) || '1');
+                const scaleY = properties.scaleY ?? parseFloat(decal.getAttribute(this.ATTR_SCALEY) || '1');
+                const flipX = properties.flipX ?? decal.getAttribute(this.ATTR_FLIPX) === 'true';
+                const flipY = properties.flipY ?? decal.getAttribute(this.ATTR_FLIPY) === 'true';
+
+                /** Update Opacity, Blend Mode and Effects */
+                if (properties.opacity !== undefined) {
+                    if (Number.isFinite(properties.opacity) && properties.opacity >= 0 && properties.opacity <= 1) {
+                        contentElement.setAttribute('opacity', properties.opacity.toString());
+                    } else {
+                        console.warn(`Invalid opacity: ${properties.opacity}.`);
                     }
                 }
-            });
-
-            /** Update Scaling and Rotate */
+                if (properties.blendMode !== undefined) {
+                    if (['normal', 'multiply', 'screen', 'overlay'].includes(properties.blendMode)) {
+                        decal.setAttribute(this.ATTR_BLEND_MODE, properties.blendMode);
+                    } else {
+                        console.warn(`Invalid blend mode: ${properties.blendMode}.`);
+                    }
+                }
+                if (properties.effects) {
+                    this.effects.apply(decal, contentElement, properties.effects);
+                }
 
-            const rotate = (properties.rotate !== undefined) ? properties.rotate : decal.getAttribute(this.ATTR_ROTATE) || 0;
-            const scale = properties.scale || parseFloat(decal.getAttribute(this.ATTR_SCALE) || '1');
+                const blendMode = decal.getAttribute(this.ATTR_BLEND_MODE) || 'normal';
+
+                /** Mirroring is applied before rotation, so rotating a mirrored decal turns it the same way as the pointer */
+                contentElement.setAttribute('style', `
+                        transform-origin: center;
+                        transform: rotate(${rotate}deg) scale(${scale * scaleX * (flipX ? -1 : 1)}, ${scale * scaleY * (flipY ? -1 : 1)});
+                        transform-box: fill-box;
+                        mix-blend-mode: ${blendMode};
+                    `);
+
+                decal.setAttribute(this.ATTR_ROTATE, rotate.toString());
+                decal.setAttribute(this.ATTR_SCALE, scale.toString());
+                decal.setAttribute(this.ATTR_SCALEX, scaleX.toString());
+                decal.setAttribute(this.ATTR_SCALEY, scaleY.toString());
+                decal.setAttribute(this.ATTR_FLIPX, flipX.toString());
+                decal.setAttribute(this.ATTR_FLIPY, flipY.toString());
+
+                /** Update Layer Flags */
+                if (properties.visible !== undefined) {
+                    decal.setAttribute(this.ATTR_VISIBLE, properties.visible.toString());
+                }
+                if (properties.locked !== undefined) {
+                    decal.setAttribute(this.ATTR_LOCKED, properties.locked.toString());
+                }
 
-            contentElement.setAttribute('style', `
-                    transform-origin: center;
-                    transform: scale(${scale}) rotate(${rotate}deg);
-                    transform-box: fill-box;
-                `);
+                /** Every move, rotation and scale goes through here, so gestures, shortcuts and alignment are all confined */
+                if (!this.confining) {
+                    this.confineDecal(decal, previousPosition);
+                }
 
-            decal.setAttribute(this.ATTR_ROTATE, rotate.toString());
-            decal.setAttribute(this.ATTR_SCALE, scale.toString());
+                this.updateControlsPosition(decal);
+                this.checkIslands(decal);
 
-            this.updateControlsPosition(decal);
-        }
+                if (decal.getAttribute(this.ATTR_ACTIVE) === 'true') {
+                    this.updateSelectionBox();
+                }
+            }
 
-        if (!this.updating) {
-            // const x = properties.x || parseFloat(decal?.getAttribute(this.ATTR_POSX) || '0');
-            // const y = properties.y || parseFloat(decal?.getAttribute(this.ATTR_POSY) || '0');
+            if (!this.updating) {
+                // const x = properties.x || parseFloat(decal?.getAttribute(this.ATTR_POSX) || '0');
+                // const y = properties.y || parseFloat(decal?.getAttribute(this.ATTR_POSY) || '0');
             
-            this.decalSVGTexture?.updateSVGTexture();
-
-            // const activeMesh = this.getMeshByUVCoords(new THREE.Vector2(
-            //     x/this.SVG_WIDTH,
-            //     y/this.SVG_HEIGHT
-            // ));
-
-            // console.log('activeMesh', activeMesh);
+                this.decalSVGTexture?.updateSVGTexture();
 
-            // this.mainModel?.traverse((child) => {
-            //     if (child instanceof THREE.Mesh && child.name.includes(this.DECAL_MESH_PREFIX)) {
-            //         child.material.visible = true;
-            //     } 
-            //     // else if (child instanceof THREE.Mesh) {
-            //     //     child.material.visible = false;
-            //     // }
-            // });
-        }
+                // const activeMesh = this.getMeshByUVCoords(new THREE.Vector2(
+                //     x/this.SVG_WIDTH,
+                //     y/this.SVG_HEIGHT
+                // ));
+
+                // console.log('activeMesh', activeMesh);
+
+                // this.mainModel?.traverse((child) => {
+                //     if (child instanceof THREE.Mesh && child.name.includes(this.DECAL_MESH_PREFIX)) {
+                //         child.material.visible = true;
+                //     } 
+                //     // else if (child instanceof THREE.Mesh) {
+                //     //     child.material.visible = false;
+                //     // }
+                // });
+            }
         
 
-        const updatedSVGContent = this.XMLSerializer.serializeToString(this.svgElement);
-        return updatedSVGContent;
+            const updatedSVGContent = this.XMLSerializer.serializeToString(this.svgElement);
+            return updatedSVGContent;
+        }, mergeKey);
     }
 
     /**
@@ -321,86 +1406,174 @@ export class SVGDecals extends EventEmitter {
         image?: Base64URLString;
         icon?: SVGElement;
         size?: number;
-        fill?: string;
+        fill?: SVGDecalFill;
         rotate?: number;
         scale?: number;
+        flipX?: boolean;
+        flipY?: boolean;
+        textStyle?: Partial<SVGDecalTextStyle>;
+        textPath?: Partial<SVGDecalTextPath>;
+        shape?: Partial<SVGDecalShape>;
+        compensateDistortion?: boolean;
+        surface?: string;
     }): string | null {
-        const decalId = Math.random().toString(36).substring(2, 15);
-        const decalName = params?.id || `decal-${decalId}`;
-        let uv = position;
+        if (params?.surface !== undefined && !this.setActiveSurface(params.surface)) return null;
 
-        if (!this.svgElement) {
-            console.warn('SVG Texture not initialized!');
-            return null;
-        }
+        return this.recordHistory('putDecal', () => {
+            const decalId = Math.random().toString(36).substring(2, 15);
+            const decalName = params?.id || `decal-${decalId}`;
+            let uv = position;
 
-        if (!uv) {
-            const intersects = this.generateRandomRay();
+            if (!this.svgElement) {
+                console.warn('SVG Texture not initialized!');
+                return null;
+            }
 
-            if (intersects && intersects.length > 0) {
-                const intersection = intersects[0];
-                uv = intersection.uv;
+            if (!uv) {
+                const intersects = this.generateRandomRay();
+
+                if (intersects && intersects.length > 0) {
+                    const intersection = intersects[0];
+                    uv = intersection.uv;
+                } else {
+                    console.warn('No intersection found.');
+                    return null;
+                }
             } else {
-                console.warn('No intersection found.');
+                uv.x /= this.SVG_WIDTH;
+                uv.y /= this.SVG_HEIGHT;
+            }
+            if (!uv) {
+                console.warn('No UV coordinates found.');
                 return null;
             }
-        } else {
-            uv.x /= this.SVG_WIDTH;
-            uv.y /= this.SVG_HEIGHT;
-        }
-        if (!uv) {
-            console.warn('No UV coordinates found.');
-            return null;
-        }
 
-        if (!this.svgElement) {
-            console.warn('SVG content is empty.');
-            return null;
-        }
+            if (!this.svgElement) {
+                console.warn('SVG content is empty.');
+                return null;
+            }
 
-        let decal;
+            let decal;
 
-        if (params?.text) {
-            decal = this.createTextDecal(uv, decalName, params?.text, params?.size || 40);
-        } else if (params?.image) {
-            decal = this.createImageDecal(uv, decalName, params?.image, params?.size || 100);
-        } else if (params?.icon) {
-            decal = this.createIconDecal(uv, decalName, params?.icon);
-        } else {
-            decal = this.createTextDecal(uv, decalName, 'Decal', params?.size || 40);
-        }
+            if (params?.text) {
+                decal = this.createTextDecal(uv, decalName, params?.text, params?.size || this.textSize);
+            } else if (params?.image) {
+                decal = this.createImageDecal(uv, decalName, params?.image, params?.size || this.imageSize);
+            } else if (params?.icon) {
+                decal = this.createIconDecal(uv, decalName, params?.icon);
+            } else if (params?.shape) {
+                decal = this.createShapeDecal(uv, decalName, params.shape, params?.size || this.imageSize);
+            } else {
+                decal = this.createTextDecal(uv, decalName, 'Decal', params?.size || this.textSize);
+            }
 
-        if (!decal) {
-            console.warn('Failed to create decal.');
-            return null;
-        }
+            if (!decal) {
+                console.warn('Failed to create decal.');
+                return null;
+            }
 
-        this.svgElement.appendChild(decal);
-        this.updateControlsPosition(decal);
-        this.updateDecal(decalName, {
-            rotate: params?.rotate || 0,
-            scale: params?.scale || 1,
-            fill: params?.fill || '#7d7d7d'
-        });
+            this.svgElement.appendChild(decal);
+            this.updateControlsPosition(decal);
+            this.assignIsland(decal);
+
+            /** The placement UV is the decal's anchor, the surface frame is taken under its center */
+            const bbox = this.getDecalBBox(decal);
+            const center = bbox
+                ? new THREE.Vector2((bbox.x + bbox.width * 0.5) / this.SVG_WIDTH, (bbox.y + bbox.height * 0.5) / this.SVG_HEIGHT)
+                : uv;
+            const compensation = (params?.compensateDistortion ?? this.distortionCompensation)
+                ? this.computeDistortionCompensation(center)
+                : null;
+
+            this.updateDecal(decalName, {
+                rotate: (params?.rotate || 0) + (compensation?.rotate || 0),
+                scale: params?.scale || 1,
+                scaleX: compensation?.scaleX || 1,
+                scaleY: compensation?.scaleY || 1,
+                flipX: params?.flipX || false,
+                flipY: (params?.flipY || false) !== (compensation?.mirrored || false),
+                fill: params?.fill || this.defaultFill,
+                textStyle: params?.textStyle,
+                textPath: params?.textPath,
+            });
 
-        return decalName;
+            return decalName;
+        });
     }
 
     /**
      * Returns the SVG element used for decals.
+     * @param surface - Id of the decal surface, defaults to the active surface.
      * @returns The SVGSVGElement or null if not available.
      */
-    public getSVGElement(): SVGSVGElement | null {
+    public getSVGElement(surface?: string): SVGSVGElement | null {
+        if (surface !== undefined) {
+            return this.surfaces.get(surface)?.svgElement || null;
+        }
+
         return this.svgElement;
     }
 
     /**
-     * Extracts decal properties from a given SVG graphics element.
-     *
-     * This method retrieves specific attribute values from the provided decal element,
-     * including properties for text, color, scale, rotation, and position. It also attempts
-     * to fetch the decal's identifier. Default values are used if certain attributes are missing:
-     * - 'black' for color,
+     * Gets the id of the decal surface that decal methods operate on.
+     */
+    public get activeSurface(): string {
+        return this.activeSurfaceId;
+    }
+
+    /**
+     * Returns the ids of all decal surfaces.
+     * @returns The surface ids, a single `'default'` surface when all meshes share one canvas.
+     */
+    public getSurfaceIds(): string[] {
+        return Array.from(this.surfaces.keys());
+    }
+
+    /**
+     * Returns the id of the decal surface that paints a mesh of the model.
+     * @param object - A mesh of the model, or its decal mesh.
+     * @returns The surface id, or null if the mesh has no decal surface.
+     */
+    public getSurfaceIdByObject(object: THREE.Object3D): string | null {
+        return this.surfaceByObject.get(object)?.id || null;
+    }
+
+    /**
+     * Makes a decal surface the target of the decal methods (`putDecal`, `updateDecal`, `alignDecals`...).
+     *
+     * The selection of the previously active surface is cleared. Pointer interactions switch
+     * the active surface automatically to the surface of the clicked mesh.
+     *
+     * @param id - The surface id.
+     * @returns True if the surface is active, false if it does not exist.
+     */
+    public setActiveSurface(id: string): boolean {
+        const surface = this.surfaces.get(id);
+
+        if (!surface) {
+            console.warn(`Decal surface ${id} not found.`);
+            return false;
+        }
+
+        if (id === this.activeSurfaceId) return true;
+
+        this.deactivateAllDecals();
+        this.clearGuides();
+        this.decalSVGTexture?.updateSVGTexture();
+        this.useSurface(surface);
+
+        this.emit('surface', [{ id }]);
+
+        return true;
+    }
+
+    /**
+     * Extracts decal properties from a given SVG graphics element.
+     *
+     * This method retrieves specific attribute values from the provided decal element,
+     * including properties for text, color, scale, rotation, and position. It also attempts
+     * to fetch the decal's identifier. Default values are used if certain attributes are missing:
+     * - 'black' for color,
      * - 1 for scale,
      * - 0 for rotation,
      * - 0 for both x and y position.
@@ -412,10 +1585,24 @@ export class SVGDecals extends EventEmitter {
      *   - color: The color value of the decal.
      *   - scale: The scale factor of the decal.
      *   - rotate: The rotation angle of the decal.
+     *   - scaleX: The horizontal stretch applied on top of the scale factor.
+     *   - scaleY: The vertical stretch applied on top of the scale factor.
      *   - x: The x-coordinate position of the decal.
      *   - y: The y-coordinate position of the decal.
+     *   - flipX: Whether the decal is mirrored horizontally.
+     *   - flipY: Whether the decal is mirrored vertically.
+     *   - visible: Whether the decal is rendered.
+     *   - locked: Whether the decal is protected from pointer selection and gestures.
+     *   - index: The position of the decal in the paint order.
+     *   - textStyle: The typography of a text decal, or null for other decals.
+     *   - textPath: The path of a curved text decal, or null for straight text and other decals.
+     *   - shape: The geometry of a shape decal, or null for other decals.
+     *   - paint: The gradient or pattern fill, or null for decals filled with a color.
+     *   - opacity: The opacity of the decal.
+     *   - blendMode: How the decal is blended with the decals below it, the fabric is not blended.
+     *   - effects: The filter effects of the decal.
      */
-    public getDecalProperties(decal?: SVGGraphicsElement): { id: string, text: string, color: string, scale: number, rotate: number, x: number, y: number } | null {
+    public getDecalProperties(decal?: SVGGraphicsElement): SVGDecalProperties | null {
         if (!decal) {
             decal = this.svgElement?.querySelector(`g[${this.ATTR_NAME}*="decal"][${this.ATTR_ACTIVE}="true"]`) as SVGGraphicsElement;
         }
@@ -426,170 +1613,1978 @@ export class SVGDecals extends EventEmitter {
         }
         
         const textElement = decal.querySelector(`[${this.ATTR_NAME}="${this.ATTR_TEXT}"]`) as SVGGraphicsElement;
-        const text = textElement?.textContent || '';
+        const text = textElement ? this.textLayout.getContent(textElement) : '';
+        const textStyle = textElement ? this.textLayout.getStyle(textElement) : null;
+        const textPath = textElement ? this.textLayout.getPath(decal) : null;
+        const shapeElement = decal.querySelector(`[${this.ATTR_NAME}="${this.ATTR_SHAPE}"]`);
+        const shape = shapeElement ? this.shapes.get(shapeElement) : null;
+        const paint = this.paints.get(decal);
+        const contentElement = decal.querySelector(`[${this.ATTR_NAME}="${this.ATTR_CONTENT}"]`);
+        const opacity = parseFloat(contentElement?.getAttribute('opacity') || '1');
+        const blendMode = (decal.getAttribute(this.ATTR_BLEND_MODE) || 'normal') as SVGDecalBlendMode;
+        const effects = this.effects.get(decal);
         const color = decal.getAttribute(this.ATTR_COLORVAL) || 'black';
         const scale = parseFloat(decal.getAttribute(this.ATTR_SCALE) || '1');
+        const scaleX = parseFloat(decal.getAttribute(this.ATTR_SCALEX) || '1');
+        const scaleY = parseFloat(decal.getAttribute(this.ATTR_SCALEY) || '1');
         const rotate = parseFloat(decal.getAttribute(this.ATTR_ROTATE) || '0');
         const x = parseFloat(decal.getAttribute(this.ATTR_POSX) || '0');
         const y = parseFloat(decal.getAttribute(this.ATTR_POSY) || '0');
+        const flipX = decal.getAttribute(this.ATTR_FLIPX) === 'true';
+        const flipY = decal.getAttribute(this.ATTR_FLIPY) === 'true';
+        const id = decal.getAttribute(this.ATTR_NAME) || '';
+        const visible = decal.getAttribute(this.ATTR_VISIBLE) !== 'false';
+        const locked = decal.getAttribute(this.ATTR_LOCKED) === 'true';
+        const index = this.getDecalElements().indexOf(decal);
+
+        return { text, color, scale, scaleX, scaleY, rotate, x, y, flipX, flipY, id, visible, locked, index, textStyle, textPath, shape, paint, opacity, blendMode, effects };
+    }
+
+    /**
+     * Serializes the decals of every surface into a plain JSON document.
+     *
+     * Decals are listed per surface in paint order, so the `index` of each entry matches its z-order in the SVG
+     * of its `surface`. The document can be stored and passed back to `loadJSON()` to rebuild the exact same SVGs.
+     *
+     * @returns The serializable decal document.
+     */
+    public toJSON(): SVGDecalsDocument {
+        const activeSurface = this.surfaces.get(this.activeSurfaceId);
+        const decals: SVGDecalData[] = [];
+
+        this.surfaces.forEach((surface) => {
+            this.useSurface(surface);
+            decals.push(...this.getDecalData(surface.id));
+        });
+
+        if (activeSurface) {
+            this.useSurface(activeSurface);
+        }
+
+        return {
+            version: this.DOCUMENT_VERSION,
+            surface: this.activeSurfaceId,
+            width: this.SVG_WIDTH,
+            height: this.SVG_HEIGHT,
+            decals,
+        };
+    }
+
+    /**
+     * Replaces all current decals with the ones described by a document produced by `toJSON()`.
+     *
+     * Decals are loaded into the surface they were exported from. Decals of surfaces that do not exist,
+     * and all decals of version 1 documents, go to the surface the document was exported from if it exists,
+     * otherwise to the active surface. A version 1 document only replaces the decals of that surface.
+     * Loading is a single undoable step, whatever the number of surfaces.
+     *
+     * Every decal is rebuilt through `createTextDecal` / `createImageDecal` / `createIconDecal`
+     * and then receives its transform and color through `updateDecal`, in the order given by `index`.
+     * Icon markup is sanitized like in `loadSVG()`, and images that are not inline data URLs are skipped.
+     * A document with an invalid decal entry, e.g. a malformed or duplicate id or a missing position,
+     * is rejected without changing the current decals.
+     *
+     * @param data - The decal document or its JSON string representation.
+     * @returns True if the document was loaded, false if it is invalid.
+     */
+    public loadJSON(data: SVGDecalsDocument | string): boolean {
+        let decalDocument: SVGDecalsDocument;
+
+        try {
+            decalDocument = typeof data === 'string' ? JSON.parse(data) : data;
+        } catch (error) {
+            console.error('Failed to parse decal document:', error);
+            return false;
+        }
+
+        if (!decalDocument || !Array.isArray(decalDocument.decals)) {
+            console.warn('Invalid decal document.');
+            return false;
+        }
+        if (decalDocument.version > this.DOCUMENT_VERSION) {
+            console.warn(`Unsupported decal document version: ${decalDocument.version}`);
+            return false;
+        }
+        if (!this.validateDecalData(decalDocument.decals)) return false;
+
+        const fallbackSurface = decalDocument.surface !== undefined && this.surfaces.has(decalDocument.surface)
+            ? decalDocument.surface
+            : this.activeSurfaceId;
+        /** Version 2 documents cover every surface, so surfaces without decals in the document are cleared */
+        const decalsBySurface = new Map<string, SVGDecalData[]>(decalDocument.version >= 2
+            ? this.getSurfaceIds().map((id) => [id, []])
+            : [[fallbackSurface, []]]);
+
+        decalDocument.decals.forEach((decalData) => {
+            const surface = decalData.surface !== undefined && this.surfaces.has(decalData.surface) ? decalData.surface : fallbackSurface;
+
+            decalsBySurface.get(surface)?.push(decalData);
+        });
+
+        return this.loadSurfaces(decalsBySurface, fallbackSurface, (decals) => this.loadDecalData(decals, decalDocument), 'loadJSON');
+    }
+
+    /**
+     * Replaces all current decals with the decals found in a previously exported SVG texture.
+     *
+     * Accepts the output of `SVGTexture.downloadSVG` and `SVGTexture.mergeAndDownloadSVG`. Every
+     * `g[name*="decal"]` group with a `content` child is imported. Missing `container` and `controls`
+     * groups are regenerated, and position attributes are restored from the content when absent.
+     * Elements and attributes decals are not made of, event handlers and external links are removed.
+     *
+     * Decals inside an element marked with the `data-surface` attribute of a decal surface SVG are loaded
+     * into that surface, replacing its decals. Other decals replace the decals of the active surface.
+     * Loading is a single undoable step, whatever the number of surfaces.
+     *
+     * @param svgString - The exported SVG markup.
+     * @returns True if the SVG was parsed and its decals were loaded, false otherwise.
+     */
+    public loadSVG(svgString: string): boolean {
+        const parser = new DOMParser();
+        const svgDocument = parser.parseFromString(svgString, 'image/svg+xml');
+
+        if (svgDocument.querySelector('parsererror') || !svgDocument.querySelector('svg')) {
+            console.error('Failed to parse SVG content.');
+            return false;
+        }
+
+        const surfaceElements = Array.from(svgDocument.querySelectorAll(`[${this.ATTR_SURFACE}]`))
+            .filter((element) => this.surfaces.has(element.getAttribute(this.ATTR_SURFACE) || ''));
+        const decalsBySurface = new Map<string, Element[]>(surfaceElements
+            .map((element) => [element.getAttribute(this.ATTR_SURFACE) || '', []]));
+
+        /** The file comes from the user, so anything that could run script or load resources is removed before it enters the page */
+        Array.from(svgDocument.querySelectorAll(`g[${this.ATTR_NAME}*="decal"]`))
+            .filter((group) => this.sanitizer.sanitize(group))
+            .filter((group) => group.querySelector(`[${this.ATTR_NAME}="${this.ATTR_CONTENT}"]`))
+            .forEach((group) => {
+                const surfaceElement = surfaceElements.find((element) => element.contains(group));
+                const surface = surfaceElement?.getAttribute(this.ATTR_SURFACE) || this.activeSurfaceId;
+
+                decalsBySurface.set(surface, [...(decalsBySurface.get(surface) || []), group]);
+            });
+
+        if (!decalsBySurface.size) {
+            decalsBySurface.set(this.activeSurfaceId, []);
+        }
+
+        return this.loadSurfaces(decalsBySurface, this.activeSurfaceId, (decals) => this.loadDecalGroups(decals), 'loadSVG');
+    }
+
+
+
+    /**
+     * Overrides the key combinations of some keyboard shortcut actions.
+     * An empty array disables the action.
+     * @param keymap - The key combinations per action to replace.
+     */
+    public setKeymap(keymap: Partial<SVGDecalsKeymap>): void {
+        this.keymap = { ...this.keymap, ...keymap };
+    }
+
+    /**
+     * Returns a copy of the current keymap.
+     * @returns The key combinations per action.
+     */
+    public getKeymap(): SVGDecalsKeymap {
+        return { ...this.keymap };
+    }
+
+    /**
+     * Overrides snapping settings. Settings that are not provided keep their current values.
+     * @param snapping - The snapping settings to change.
+     */
+    public setSnapping(snapping: Partial<SVGDecalsSnapping>): void {
+        this.snapping = { ...this.snapping, ...snapping };
+    }
+
+    /**
+     * Returns a copy of the current snapping settings.
+     * @returns The snapping settings.
+     */
+    public getSnapping(): SVGDecalsSnapping {
+        return { ...this.snapping };
+    }
+
+    /**
+     * Aligns decals to the matching edge or center line of their combined bounding box.
+     * @param ids decal names
+     * @param alignment edge or center line to align to
+     * @returns True if the decals were aligned, false if fewer than two decals were found.
+     */
+    public alignDecals(ids: string[], alignment: SVGDecalsAlignment): boolean {
+        const decals = this.getDecalElements().filter((decal) => ids.includes(decal.getAttribute(this.ATTR_NAME) || ''));
+        const bbox = this.getSelectionBBox(decals);
+
+        if (decals.length < 2 || !bbox) {
+            console.warn('At least two decals are required to align.');
+            return false;
+        }
+
+        return this.recordHistory('alignDecals', () => {
+            const wasUpdating = this.updating;
+
+            /** Batch all updates into a single texture update */
+            this.updating = true;
+
+            decals.forEach((decal) => {
+                const decalBBox = this.getDecalBBox(decal);
+
+                if (!decalBBox) return;
+
+                let dx = 0, dy = 0;
+
+                switch (alignment) {
+                    case 'left': dx = bbox.x - decalBBox.x; break;
+                    case 'center': dx = (bbox.x + bbox.width * 0.5) - (decalBBox.x + decalBBox.width * 0.5); break;
+                    case 'right': dx = (bbox.x + bbox.width) - (decalBBox.x + decalBBox.width); break;
+                    case 'top': dy = bbox.y - decalBBox.y; break;
+                    case 'middle': dy = (bbox.y + bbox.height * 0.5) - (decalBBox.y + decalBBox.height * 0.5); break;
+                    case 'bottom': dy = (bbox.y + bbox.height) - (decalBBox.y + decalBBox.height); break;
+                }
+
+                this.moveDecalBy(decal, dx, dy);
+            });
+
+            this.updating = wasUpdating;
+            this.emitDecalsUpdate();
+
+            return true;
+        });
+    }
+
+    /**
+     * Spreads decals so the gaps between their bounding boxes are equal.
+     * The outermost decals keep their positions.
+     * @param ids decal names
+     * @param axis direction to distribute along
+     * @returns True if the decals were distributed, false if fewer than three decals were found.
+     */
+    public distributeDecals(ids: string[], axis: 'horizontal' | 'vertical'): boolean {
+        const horizontal = axis === 'horizontal';
+        const items = this.getDecalElements()
+            .filter((decal) => ids.includes(decal.getAttribute(this.ATTR_NAME) || ''))
+            .map((decal) => ({ decal, bbox: this.getDecalBBox(decal) }))
+            .filter((item): item is { decal: SVGGraphicsElement; bbox: DOMRect } => item.bbox !== null)
+            .sort((a, b) => horizontal
+                ? (a.bbox.x + a.bbox.width * 0.5) - (b.bbox.x + b.bbox.width * 0.5)
+                : (a.bbox.y + a.bbox.height * 0.5) - (b.bbox.y + b.bbox.height * 0.5));
+
+        if (items.length < 3) {
+            console.warn('At least three decals are required to distribute.');
+            return false;
+        }
+
+        return this.recordHistory('distributeDecals', () => {
+            const first = items[0].bbox;
+            const last = items[items.length - 1].bbox;
+            const start = horizontal ? first.x : first.y;
+            const end = horizontal ? last.x + last.width : last.y + last.height;
+            const occupied = items.reduce((sum, item) => sum + (horizontal ? item.bbox.width : item.bbox.height), 0);
+            const gap = (end - start - occupied) / (items.length - 1);
+            const wasUpdating = this.updating;
+            let position = start;
+
+            /** Batch all updates into a single texture update */
+            this.updating = true;
+
+            items.forEach((item) => {
+                const delta = position - (horizontal ? item.bbox.x : item.bbox.y);
+
+                this.moveDecalBy(item.decal, horizontal ? delta : 0, horizontal ? 0 : delta);
+                position += (horizontal ? item.bbox.width : item.bbox.height) + gap;
+            });
+
+            this.updating = wasUpdating;
+            this.emitDecalsUpdate();
+
+            return true;
+        });
+    }
+
+    /**
+     * Creates a deep copy of a decal with a new name, placed right above the original in the z-order.
+     * @param id decal name
+     * @param offset position offset of the copy in SVG units, defaults to 20 units right and down
+     * @returns The name of the new decal or null if the decal was not found.
+     */
+    public duplicateDecal(id: string, offset: { x: number; y: number } = { x: 20, y: 20 }): string | null {
+        const decal = this.getDecalElements().find((el) => el.getAttribute(this.ATTR_NAME) === id);
+
+        if (!decal) {
+            console.warn(`Decal ${id} not found.`);
+            return null;
+        }
+
+        return this.recordHistory('duplicateDecal', () => {
+            if (!this.svgElement) {
+                console.warn('SVG element is not available.');
+                return null;
+            }
+
+            const decalId = Math.random().toString(36).substring(2, 15);
+            const decalName = `decal-${decalId}`;
+            const clone = decal.cloneNode(true) as SVGGraphicsElement;
+            const x = parseFloat(decal.getAttribute(this.ATTR_POSX) || '0');
+            const y = parseFloat(decal.getAttribute(this.ATTR_POSY) || '0');
+
+            clone.setAttribute(this.ATTR_NAME, decalName);
+            clone.setAttribute(this.ATTR_ACTIVE, 'false');
+            clone.removeAttribute(this.ATTR_HOVER);
+            clone.querySelector(`[${this.ATTR_NAME}="${this.ATTR_CONTAINER}"]`)?.removeAttribute('class');
+            decal.after(clone);
+
+            this.updateDecal(decalName, { x: x + offset.x, y: y + offset.y });
+            this.decalSVGTexture?.updateSVGTexture();
+
+            this.emit('update', [{
+                updatedSVGContent: this.XMLSerializer.serializeToString(this.svgElement),
+                dragging: this.dragging,
+                rotating: this.rotating,
+                scaling: this.scaling,
+                props: this.getDecalProperties(clone)
+            }]);
+
+            return decalName;
+        });
+    }
+
+    /**
+     * Reverts the latest decal edit.
+     * @returns True if an edit was undone.
+     */
+    public undo(): boolean {
+        if (this.historyDepth > 0) return false;
+
+        const entries = this.history.undo();
+
+        if (!entries) return false;
+
+        [...entries].reverse().forEach((entry) => {
+            if (entry.surface !== undefined) {
+                this.setActiveSurface(entry.surface);
+            }
+
+            this.restoreState(entry.before);
+        });
+        this.emitHistoryChange(entries[0].label);
+
+        return true;
+    }
+
+    /**
+     * Re-applies the latest undone decal edit.
+     * @returns True if an edit was redone.
+     */
+    public redo(): boolean {
+        if (this.historyDepth > 0) return false;
+
+        const entries = this.history.redo();
+
+        if (!entries) return false;
+
+        entries.forEach((entry) => {
+            if (entry.surface !== undefined) {
+                this.setActiveSurface(entry.surface);
+            }
+
+            this.restoreState(entry.after);
+        });
+        this.emitHistoryChange(entries[0].label);
+
+        return true;
+    }
+
+    /**
+     * Starts a continuous interaction, e.g. dragging a slider. Consecutive `updateDecal` calls changing
+     * the same properties of a decal until `endInteraction()` are merged into a single undoable step,
+     * other updates are a step each.
+     */
+    public beginInteraction(): void {
+        this.interaction = ++this.interactionCount;
+    }
+
+    /**
+     * Ends the interaction started by `beginInteraction()`.
+     */
+    public endInteraction(): void {
+        this.interaction = null;
+    }
+
+    /**
+     * Removes all undo/redo steps.
+     */
+    public clearHistory(): void {
+        this.history.clear();
+        this.emitHistoryChange('clear');
+    }
+
+    /**
+     * Loads a font file and embeds it into the decal SVGs.
+     *
+     * Text decals using the family in their `font-family` are rendered with the font in the texture
+     * and in `downloadSVG` exports. Only the glyphs of the characters used by those decals are embedded.
+     *
+     * @param family - The font family name, as used in the text style of the decals.
+     * @param source - The URL of the font file or its content.
+     * @param descriptors - The weight and style of the font file.
+     * @returns True if the font was loaded, false otherwise.
+     */
+    public async registerFont(family: string, source: string | ArrayBuffer, descriptors: FontDescriptors = {}): Promise<boolean> {
+        const registered = await this.fonts.register(family, source, descriptors);
+
+        if (registered) {
+            this.refreshFonts();
+        }
+
+        return registered;
+    }
+
+    /**
+     * Removes the fonts of a family from the decal SVGs.
+     *
+     * @param family - The font family name.
+     * @returns True if a font was removed, false otherwise.
+     */
+    public unregisterFont(family: string): boolean {
+        const unregistered = this.fonts.unregister(family);
+
+        if (unregistered) {
+            this.refreshFonts();
+        }
+
+        return unregistered;
+    }
+
+    /**
+     * Releases everything created by the instance.
+     *
+     * Removes the window listeners, the controls overlay and the decal meshes added to the model,
+     * disposes the bounds trees, decal materials and SVG textures, removes the registered fonts from the page,
+     * and restores the canvas cursor, tab index and camera controls. The instance cannot be used afterwards.
+     */
+    public dispose(): void {
+        const canvas = this.renderer.domElement;
+
+        this.windowListeners.forEach(({ type, listener, options }) => window.removeEventListener(type, listener, options));
+        this.windowListeners = [];
+
+        this.removeOverlay();
+        cancelAnimationFrame(this.hoverFrame);
+        this.hoverEvent = null;
+        this.interactionEnabled = false;
+        this.placeDecalMode = false;
+        this.dragging = false;
+        this.rotating = false;
+        this.scaling = false;
+        this.pinching = false;
+        this.activePointers.clear();
+        this.updateCameraControls();
+
+        canvas.style.cursor = '';
+
+        if (this.canvasTabIndexAdded) {
+            canvas.removeAttribute('tabindex');
+            this.canvasTabIndexAdded = false;
+        }
+
+        this.surfaces.forEach((surface) => {
+            surface.meshes.forEach((mesh) => mesh.geometry.disposeBoundsTree());
+            surface.texture.dispose();
+            surface.material.dispose();
+        });
+
+        this.surfaceByObject.forEach((surface, object) => {
+            if (!surface.meshes.includes(object as THREE.Mesh)) {
+                object.removeFromParent();
+            }
+        });
+
+        this.surfaces.clear();
+        this.surfaceByObject.clear();
+        this.islandWarnings.clear();
+        this.fonts.clear();
+        this.history.clear();
+        this.historyMarkup.clear();
+        this.svgElement = null;
+        this.decalSVGTexture = null;
+        this.mainModel = null;
+    }
+
+    // ──────────────────────────────────────────────────────────────
+    // Private Methods
+    // ──────────────────────────────────────────────────────────────
+
+    /**
+     * Updates the controls of every decal to the text measured with the current fonts
+     * and redraws the textures with the embedded fonts.
+     */
+    private refreshFonts(): void {
+        this.surfaces.forEach((surface) => {
+            surface.svgElement?.querySelectorAll(`:scope > g[${this.ATTR_NAME}*="decal"]`).forEach((decal) => {
+                if (decal instanceof SVGGraphicsElement) {
+                    this.updateControlsPosition(decal);
+                }
+            });
+
+            if (surface.texture !== this.decalSVGTexture) {
+                surface.texture.updateSVGTexture();
+            }
+        });
+
+        this.updateSelectionBox();
+        this.decalSVGTexture?.updateSVGTexture();
+    }
+
+    /**
+     * Serializes the decals of the active surface.
+     *
+     * @param surface - Id of the active surface, stored with every decal.
+     * @returns The decals in paint order.
+     */
+    private getDecalData(surface: string): SVGDecalData[] {
+        const decals: SVGDecalData[] = [];
+
+        this.getDecalElements().forEach((decal, index) => {
+            const type = this.getDecalType(decal);
+            const props = this.getDecalProperties(decal);
+
+            if (!type || !props) return;
+
+            let content = '';
+            let size: number | undefined;
+
+            if (type === 'text') {
+                const textElement = decal.querySelector(`[${this.ATTR_NAME}="${this.ATTR_TEXT}"]`);
+
+                content = props.text;
+                size = parseFloat(textElement?.getAttribute('font-size') || this.textSize.toString());
+            } else if (type === 'image') {
+                const imageElement = decal.querySelector(`[${this.ATTR_NAME}="${this.ATTR_IMAGE}"]`);
+
+                content = imageElement?.getAttribute('href') || '';
+                size = parseFloat(imageElement?.getAttribute('width') || this.imageSize.toString());
+            } else if (type === 'icon') {
+                const iconElement = decal.querySelector(`[${this.ATTR_NAME}="${this.ATTR_ICON}"]`);
+
+                content = Array.from(iconElement?.children || [])
+                    .map((child) => this.XMLSerializer.serializeToString(child))
+                    .join('');
+            }
+
+            decals.push({
+                id: props.id,
+                type,
+                content,
+                size,
+                x: props.x,
+                y: props.y,
+                rotate: props.rotate,
+                scale: props.scale,
+                scaleX: props.scaleX,
+                scaleY: props.scaleY,
+                flipX: props.flipX,
+                flipY: props.flipY,
+                color: props.color,
+                visible: props.visible,
+                locked: props.locked,
+                index,
+                surface,
+                textStyle: props.textStyle || undefined,
+                textPath: props.textPath || undefined,
+                shape: props.shape || undefined,
+                paint: props.paint || undefined,
+                opacity: props.opacity,
+                blendMode: props.blendMode,
+                effects: props.effects,
+            });
+        });
+
+        return decals;
+    }
+
+    /**
+     * Checks the decal entries of a document before any current decal is replaced, so an invalid
+     * document is rejected as a whole instead of being loaded partly.
+     *
+     * Ids must have the `decal-xxxx` format of generated ids and be unique, as decals are found by
+     * their id and only groups named like that are treated as decals. Positions and sizes must be finite.
+     *
+     * @param decals - The decal entries of the document.
+     * @returns True if every entry is valid, false otherwise.
+     */
+    private validateDecalData(decals: SVGDecalData[]): boolean {
+        const types: SVGDecalType[] = ['text', 'image', 'icon', 'shape'];
+        const ids = new Set<string>();
+
+        return decals.every((decalData, index) => {
+            const invalid = (name: string, value: unknown) => {
+                warnInvalid('decal document', `decals[${index}]${name ? `.${name}` : ''}`, value);
+                return false;
+            };
+
+            if (!decalData || typeof decalData !== 'object') return invalid('', decalData);
+            if (typeof decalData.id !== 'string' || !this.DECAL_ID_PATTERN.test(decalData.id)) return invalid('id', decalData.id);
+            if (ids.has(decalData.id)) return invalid('id', decalData.id);
+            if (!types.includes(decalData.type)) return invalid('type', decalData.type);
+            if (typeof decalData.content !== 'string') return invalid('content', decalData.content);
+            if (typeof decalData.x !== 'number' || !Number.isFinite(decalData.x)) return invalid('x', decalData.x);
+            if (typeof decalData.y !== 'number' || !Number.isFinite(decalData.y)) return invalid('y', decalData.y);
+            if (decalData.size !== undefined && (typeof decalData.size !== 'number' || !Number.isFinite(decalData.size) || decalData.size <= 0)) {
+                return invalid('size', decalData.size);
+            }
+
+            ids.add(decalData.id);
+
+            return true;
+        });
+    }
+
+    /**
+     * Replaces the decals of the active surface with decals of a document.
+     *
+     * @param decals - The decals of the document painted on the active surface.
+     * @param decalDocument - The document, for its SVG size.
+     * @returns True if the decals were loaded.
+     */
+    private loadDecalData(decals: SVGDecalData[], decalDocument: SVGDecalsDocument): boolean {
+        if (!this.svgElement) {
+            console.warn('SVG element is not available.');
+            return false;
+        }
+
+        const scaleX = this.SVG_WIDTH / (decalDocument.width || this.SVG_WIDTH);
+        const scaleY = this.SVG_HEIGHT / (decalDocument.height || this.SVG_HEIGHT);
+        const wasUpdating = this.updating;
+
+        this.getDecalElements().forEach((decal) => decal.remove());
+
+        /** Batch all updates into a single texture update */
+        this.updating = true;
+
+        [...decals]
+            .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+            .forEach((decalData) => {
+                const uv = new THREE.Vector2(
+                    (decalData.x * scaleX) / this.SVG_WIDTH,
+                    (decalData.y * scaleY) / this.SVG_HEIGHT,
+                );
+                const paint = decalData.paint;
+                let decal: SVGGraphicsElement | null = null;
+
+                if (decalData.type === 'text') {
+                    decal = this.createTextDecal(uv, decalData.id, decalData.content, decalData.size || this.textSize);
+                } else if (decalData.type === 'image') {
+                    /** Only inline images are loaded from a document, it may come from an untrusted source */
+                    if (this.sanitizer.isSafeHref(decalData.content)) {
+                        decal = this.createImageDecal(uv, decalData.id, decalData.content, decalData.size || this.imageSize);
+                    } else {
+                        console.warn(`Skipped image decal ${decalData.id}: only inline data URL images are loaded.`);
+                        return;
+                    }
+                } else if (decalData.type === 'icon') {
+                    const parser = new DOMParser();
+                    const iconDocument = parser.parseFromString(`<svg xmlns="${this.SVG_NS}">${decalData.content}</svg>`, 'image/svg+xml');
+                    const icon = iconDocument.querySelector('svg');
+
+                    if (icon instanceof SVGSVGElement && this.sanitizer.sanitize(icon)) {
+                        decal = this.createIconDecal(uv, decalData.id, icon);
+                    } else {
+                        console.warn(`Skipped icon decal ${decalData.id}: its markup is not valid SVG.`);
+                        return;
+                    }
+                } else if (decalData.type === 'shape') {
+                    decal = this.createShapeDecal(uv, decalData.id, decalData.shape || {}, this.imageSize);
+                }
+
+                if (!decal) {
+                    console.warn(`Failed to restore decal ${decalData.id}.`);
+                    return;
+                }
+
+                this.svgElement?.appendChild(decal);
+                this.updateControlsPosition(decal);
+                this.assignIsland(decal);
+                this.updateDecal(decalData.id, {
+                    rotate: decalData.rotate || 0,
+                    scale: decalData.scale || 1,
+                    scaleX: decalData.scaleX || 1,
+                    scaleY: decalData.scaleY || 1,
+                    flipX: decalData.flipX ?? false,
+                    flipY: decalData.flipY ?? false,
+                    fill: paint && (paint.type !== 'pattern' || !paint.image || this.sanitizer.isInlineImage(paint.image)) ? paint : decalData.color,
+                    opacity: decalData.opacity ?? 1,
+                    blendMode: decalData.blendMode || 'normal',
+                    effects: decalData.effects,
+                    visible: decalData.visible ?? true,
+                    locked: decalData.locked ?? false,
+                    textStyle: decalData.textStyle,
+                    textPath: decalData.textPath,
+                });
+            });
+
+        this.updating = wasUpdating;
+        this.decalSVGTexture?.updateSVGTexture();
+
+        this.emit('update', [{
+            updatedSVGContent: this.XMLSerializer.serializeToString(this.svgElement),
+            dragging: this.dragging,
+            rotating: this.rotating,
+            scaling: this.scaling,
+            props: null
+        }]);
+
+        return true;
+    }
+
+    /**
+     * Replaces the decals of the active surface with sanitized decal groups of an exported SVG.
+     *
+     * @param decals - The decal groups painted on the active surface.
+     * @returns True if the decals were loaded.
+     */
+    private loadDecalGroups(decals: Element[]): boolean {
+        if (!this.svgElement) {
+            console.warn('SVG element is not available.');
+            return false;
+        }
+
+        this.getDecalElements().forEach((decal) => decal.remove());
+
+        decals.forEach((importedDecal) => {
+            const decal = document.importNode(importedDecal, true);
+            const contentElement = decal.querySelector(`[${this.ATTR_NAME}="${this.ATTR_CONTENT}"]`);
+            let containerElement = decal.querySelector(`[${this.ATTR_NAME}="${this.ATTR_CONTAINER}"]`);
+
+            if (!(decal instanceof SVGGraphicsElement) || !contentElement) {
+                console.warn(`Failed to restore decal ${importedDecal.getAttribute(this.ATTR_NAME)}.`);
+                return;
+            }
+
+            /** Restore the container group around the content */
+            if (!containerElement) {
+                containerElement = document.createElementNS(this.SVG_NS, 'g');
+                containerElement.setAttribute(this.ATTR_NAME, this.ATTR_CONTAINER);
+                contentElement.replaceWith(containerElement);
+                containerElement.appendChild(contentElement);
+            }
+
+            /** Regenerate the control buttons */
+            if (!decal.querySelector(`[${this.ATTR_NAME}="${this.ATTR_CONTROLS}"]`)) {
+                decal.appendChild(this.createControlButtonsGroup());
+            }
+
+            /** Restore the position attributes from the content element */
+            const positionedElement = contentElement.querySelector(`[${this.ATTR_NAME}="${this.ATTR_TEXT}"], [${this.ATTR_NAME}="${this.ATTR_IMAGE}"], [${this.ATTR_NAME}="${this.ATTR_ICON}"], [${this.ATTR_NAME}="${this.ATTR_SHAPE}"]`);
+
+            if (!decal.hasAttribute(this.ATTR_POSX)) {
+                decal.setAttribute(this.ATTR_POSX, positionedElement?.getAttribute('x') || '0');
+            }
+            if (!decal.hasAttribute(this.ATTR_POSY)) {
+                decal.setAttribute(this.ATTR_POSY, positionedElement?.getAttribute('y') || '0');
+            }
+
+            decal.setAttribute(this.ATTR_ACTIVE, 'false');
+            containerElement.removeAttribute('class');
+
+            this.svgElement?.appendChild(decal);
+            this.updateControlsPosition(decal);
+
+            if (!decal.hasAttribute(this.ATTR_ISLAND)) {
+                this.assignIsland(decal);
+            }
+        });
+
+        this.decalSVGTexture?.updateSVGTexture();
+
+        this.emit('update', [{
+            updatedSVGContent: this.XMLSerializer.serializeToString(this.svgElement),
+            dragging: this.dragging,
+            rotating: this.rotating,
+            scaling: this.scaling,
+            props: null
+        }]);
+
+        return true;
+    }
+
+    /**
+     * Replaces the decals of several surfaces as a single undoable step.
+     *
+     * @param decalsBySurface - The decals to load by surface id.
+     * @param activeSurface - Id of the surface to activate afterwards.
+     * @param load - Loads the decals of the active surface.
+     * @param label - Name of the operation stored with the history entries.
+     * @returns True if the decals of every surface were loaded.
+     */
+    private loadSurfaces<T>(decalsBySurface: Map<string, T[]>, activeSurface: string, load: (decals: T[]) => boolean, label: string): boolean {
+        let loaded = true;
+
+        this.history.beginGroup();
+
+        try {
+            decalsBySurface.forEach((decals, surface) => {
+                this.setActiveSurface(surface);
+                loaded = this.recordHistory(label, () => load(decals)) && loaded;
+            });
+        } finally {
+            this.history.endGroup();
+        }
+
+        this.setActiveSurface(activeSurface);
+        this.emitHistoryChange(label);
+
+        return loaded;
+    }
+
+    /**
+     * Runs a decal mutation as a single undoable step.
+     *
+     * Nested calls (e.g. `putDecal` calling `updateDecal`, or updates during a gesture)
+     * are merged into the outermost step.
+     *
+     * @param label - Name of the operation stored with the history entry.
+     * @param mutation - The function mutating the decals.
+     * @param mergeKey - Key of steps merged into the previous step when it has the same key.
+     * @returns The value returned by the mutation.
+     */
+    private recordHistory<T>(label: string, mutation: () => T, mergeKey?: string): T {
+        this.beginHistoryStep(label, mergeKey);
+
+        try {
+            return mutation();
+        } finally {
+            this.endHistoryStep();
+        }
+    }
+
+    /**
+     * Opens an undoable step, capturing the decal state if it is the outermost one.
+     * @param label - Name of the operation stored with the history entry.
+     * @param mergeKey - Key of steps merged into the previous step when it has the same key.
+     */
+    private beginHistoryStep(label: string, mergeKey?: string): void {
+        if (this.historyDepth === 0) {
+            this.historyLabel = label;
+            this.historyMergeKey = mergeKey;
+            this.historySurface = this.activeSurfaceId;
+            this.historySnapshot = this.captureState();
+            this.decalIds = this.getDecalIds();
+        }
+
+        this.historyDepth++;
+    }
+
+    /**
+     * Closes an undoable step. When the outermost step is closed and the decal state changed,
+     * a history entry is pushed and a 'history' event is emitted, together with the lifecycle
+     * events of the decals added, removed or deselected during the step.
+     */
+    private endHistoryStep(): void {
+        if (this.historyDepth === 0) return;
+
+        this.historyDepth--;
+
+        if (this.historyDepth > 0 || this.historySnapshot === null) return;
+
+        const before = this.historySnapshot;
+        const after = this.captureState();
+        const ids = this.getDecalIds();
+        const changedIds = Array.from(new Set([...before.keys(), ...after.keys()]))
+            .filter((id) => before.get(id) !== after.get(id));
+        const pick = (state: Map<string, string>) => new Map(changedIds
+            .filter((id) => state.has(id))
+            .map((id) => [id, state.get(id) || '']));
+
+        this.historySnapshot = null;
+        this.historyMarkup = after;
+        this.emitSelectionChanges();
+        this.emitDecalChanges(this.decalIds);
+
+        if (changedIds.length > 0 || ids.join() !== this.decalIds.join()) {
+            this.history.push({
+                label: this.historyLabel,
+                before: { ids: this.decalIds, decals: pick(before) },
+                after: { ids, decals: pick(after) },
+                surface: this.historySurface,
+            }, this.historyMergeKey);
+            this.emitHistoryChange(this.historyLabel);
+        }
+    }
+
+    /**
+     * Returns the names of all decals in paint order.
+     * @returns An array of decal names.
+     */
+    private getDecalIds(): string[] {
+        return this.getDecalElements().map((decal) => decal.getAttribute(this.ATTR_NAME) || '');
+    }
+
+    /**
+     * Emits 'decal:remove' and 'decal:add' events for the decals removed or added since a previous list of decals.
+     * @param previousIds - The decal names before the change.
+     */
+    private emitDecalChanges(previousIds: string[]): void {
+        const ids = this.getDecalIds();
+
+        previousIds.filter((id) => !ids.includes(id)).forEach((id) => this.emit('decal:remove', [{ id }]));
+        ids.filter((id) => !previousIds.includes(id)).forEach((id) => this.emit('decal:add', [{ id }]));
+    }
+
+    /**
+     * Emits 'decal:deselect' and 'decal:select' events for the decals whose selection changed since the last call.
+     */
+    private emitSelectionChanges(): void {
+        const previousIds = this.selectedIds;
+        const ids = this.getSelectedDecalIds();
+
+        this.selectedIds = ids;
+
+        previousIds.filter((id) => !ids.includes(id)).forEach((id) => this.emit('decal:deselect', [{ id }]));
+        ids.filter((id) => !previousIds.includes(id)).forEach((id) => this.emit('decal:select', [{ id }]));
+
+        this.startOverlay();
+    }
+
+    /**
+     * Emits a 'history' event with the current undo/redo availability.
+     * @param label - Name of the operation that changed the history.
+     */
+    private emitHistoryChange(label: string): void {
+        this.emit('history', [{
+            label,
+            canUndo: this.history.canUndo,
+            canRedo: this.history.canRedo,
+        }]);
+    }
+
+    /**
+     * Serializes all decal groups without their selection and hover state.
+     * Markup equal to the one of the latest step is returned as the same string, so history entries share it.
+     * @returns The serialized decal markup by decal name.
+     */
+    private captureState(): Map<string, string> {
+        return new Map(this.getDecalElements().map((decal) => {
+            const id = decal.getAttribute(this.ATTR_NAME) || '';
+            const clone = decal.cloneNode(true) as SVGGraphicsElement;
+
+            clone.removeAttribute(this.ATTR_ACTIVE);
+            clone.removeAttribute(this.ATTR_HOVER);
+            clone.querySelector(`[${this.ATTR_NAME}="${this.ATTR_CONTAINER}"]`)?.removeAttribute('class');
+
+            const markup = this.XMLSerializer.serializeToString(clone);
+            const previousMarkup = this.historyMarkup.get(id);
+
+            return [id, previousMarkup === markup ? previousMarkup : markup];
+        }));
+    }
+
+    /**
+     * Restores the decals stored in a history state and brings all decals into its paint order,
+     * keeping the selected decals that still exist selected. Decals not stored in the state are unchanged.
+     * @param state - The history state to restore.
+     */
+    private restoreState(state: DecalHistoryState): void {
+        if (!this.svgElement) return;
+
+        const previousIds = this.getDecalIds();
+        const selectedNames = this.getDecalElements()
+            .filter((decal) => decal.getAttribute(this.ATTR_ACTIVE) === 'true')
+            .map((decal) => decal.getAttribute(this.ATTR_NAME));
+        const parser = new DOMParser();
+        const stateDocument = parser.parseFromString(`<svg xmlns="${this.SVG_NS}">${Array.from(state.decals.values()).join('')}</svg>`, 'image/svg+xml');
+        const restoredDecals = new Map(Array.from(stateDocument.documentElement.children)
+            .map((child) => [child.getAttribute(this.ATTR_NAME) || '', child]));
+        const currentDecals = new Map(this.getDecalElements().map((decal) => [decal.getAttribute(this.ATTR_NAME) || '', decal]));
+
+        this.getDecalElements().forEach((decal) => decal.remove());
+
+        state.ids.forEach((id) => {
+            const restoredDecal = restoredDecals.get(id);
+            const decal = restoredDecal ? document.importNode(restoredDecal, true) : currentDecals.get(id);
+
+            if (!decal) return;
+
+            decal.setAttribute(this.ATTR_ACTIVE, 'false');
+            this.svgElement?.appendChild(decal);
+        });
+
+        const selectedDecals = this.getDecalElements().filter((decal) => selectedNames.includes(decal.getAttribute(this.ATTR_NAME)));
+        const selectedDecal = selectedDecals[0];
+
+        selectedDecals.forEach((decal) => this.activateDecal(decal, true));
+        this.updateSelectionBox();
+        this.emitSelectionChanges();
+        this.emitDecalChanges(previousIds);
+
+        this.decalSVGTexture?.updateSVGTexture();
+
+        this.emit('update', [{
+            updatedSVGContent: this.XMLSerializer.serializeToString(this.svgElement),
+            dragging: this.dragging,
+            rotating: this.rotating,
+            scaling: this.scaling,
+            props: selectedDecal ? this.getDecalProperties(selectedDecal) : null
+        }]);
+    }
+
+    /**
+     * Initializes event listeners for pointer interactions.
+     *
+     * This method attaches event listeners for 'pointerdown', 'pointermove', 'pointerup' and 'pointercancel' events to the window,
+     * so mouse, pen and touch input share the same code path. 'pointerdown' is registered in the capture phase, so the camera
+     * controls flags are updated before OrbitControls handles the same event.
+     * - On pointerdown, it checks if interaction is enabled, validates the event target, and determines intersections with decals, control handles, and content.
+     *   Based on which element is interacted with, it sets flags for dragging, rotating, scaling, or deleting, and disables camera controls accordingly.
+     *   It also serializes the updated SVG content and emits an 'update' event with the initial properties.
+     *   A second touch pointer placed while a decal gesture is active switches to a two-finger gesture: pinch scales and twist rotates the selection.
+     *
+     * - On pointermove, if dragging, rotating, scaling or pinching is active, it updates the SVG decal accordingly by calling the appropriate handler.
+     *   It then updates the texture and emits an 'update' event with the current state.
+     *
+     * - On pointerup, once the last pointer is released, it finalizes the current interaction:
+     *   If the deletion flag is set, the active decal is removed.
+     *   All interaction flags are reset and controls are re-enabled.
+     *   Everything changed between pointerdown and pointerup is recorded as a single undoable step.
+     *   Finally, the SVG texture is updated and an 'update' event is emitted.
+     *
+     * @remarks
+     * This method ensures that the decal transformations, texture updates, and event emissions operate in sync during user interactions.
+     */
+    private initEventListeners() {
+        this.addWindowListener('pointerdown', (event: PointerEvent) => {
+            if (!this.interactionEnabled || !this.svgElement || event.target !== this.renderer.domElement) return;
+
+            this.activePointers.set(event.pointerId, {x: event.clientX, y: event.clientY});
+
+            /** A second finger turns the current decal gesture into a pinch/twist gesture */
+            if (this.activePointers.size > 1) {
+                if (this.activePointers.size === 2 && event.pointerType !== 'mouse' && (this.dragging || this.rotating || this.scaling || this.pinching)) {
+                    this.startPinchGesture();
+                }
+
+                return;
+            }
+
+            /** The whole gesture (pointerdown → pointerup) is a single undoable step */
+            if (this.gestureHistoryOpen) {
+                this.endHistoryStep();
+            }
+            const intersects = this.getMouseIntersections(event);
+
+            /** Route the gesture to the canvas of the clicked mesh */
+            this.useSurfaceByIntersection(intersects);
+
+            this.beginHistoryStep('gesture');
+            this.gestureHistoryOpen = true;
+
+            this.startScalePos = {x: event.clientX, y: event.clientY};
+
+            if (this.placeDecalMode && intersects.length && intersects[0].uv) {
+                this.putDecal(new THREE.Vector2(intersects[0].uv.x * this.SVG_WIDTH, intersects[0].uv.y * this.SVG_HEIGHT));
+
+                this.placeDecalMode = false;
+            }
+
+            const decalIntersected = this.selectDecalInIntersection(intersects, event.shiftKey);
+            const controlIntersected = this.useControlByClickedPosition(intersects);
+            const contentIntersected = this.useContentByClickedPosition(intersects);
+            const updatedSVGContent = this.XMLSerializer.serializeToString(this.svgElement);
+
+            // console.log('intersects[0].uv', intersects[0].uv, intersects[0].point, intersects[0].object, intersects[0].normal);
+
+            this.dragging = decalIntersected && contentIntersected !== null;
+            this.rotating = decalIntersected && controlIntersected !== null && controlIntersected.getAttribute(this.ATTR_NAME) === this.ATTR_CONTROL_ROTATE;
+            this.scaling = decalIntersected && controlIntersected !== null && controlIntersected.getAttribute(this.ATTR_NAME) === this.ATTR_CONTROL_SCALE;
+            this.deleting = decalIntersected && controlIntersected !== null && controlIntersected.getAttribute(this.ATTR_NAME) === this.ATTR_CONTROL_DELETE;
+            this.duplicating = decalIntersected && controlIntersected !== null && controlIntersected.getAttribute(this.ATTR_NAME) === this.ATTR_CONTROL_DUPLICATE;
+            this.updateCameraControls();
+            this.startGesture();
+
+            this.decalSVGTexture?.updateSVGTexture();
+
+            if (decalIntersected) {
+                const activeDecal = this.svgElement.querySelector(`g[${this.ATTR_NAME}*="decal"][${this.ATTR_ACTIVE}="true"]`) as SVGGraphicsElement | null;
+                
+                if (!activeDecal) return;
+
+                const actualProps = this.getDecalProperties(activeDecal);
+
+                this.emit('update', [{ 
+                    event, 
+                    updatedSVGContent, 
+                    dragging: this.dragging,
+                    rotating: this.rotating,
+                    scaling: this.scaling,
+                    pinching: this.pinching,
+                    props: actualProps
+                }]);
+            }
+        }, { capture: true });
+
+        this.addWindowListener('pointermove', (event: PointerEvent) => {
+            if (this.activePointers.has(event.pointerId)) {
+                this.activePointers.set(event.pointerId, {x: event.clientX, y: event.clientY});
+            }
+
+            if (!this.interactionEnabled || this.updating) return;
+
+            /** Only the first pointer drives single-pointer gestures */
+            if (!this.pinching && !event.isPrimary) return;
+
+            this.updateCameraControls();
+
+            if (this.dragging || this.rotating || this.scaling || this.pinching) {
+                this.updating = true;
+
+                let updatedSVGContent: string | null = null;
+
+                if (this.pinching) {
+                    updatedSVGContent = this.handlePinchDecal();
+                } else if (this.dragging) {
+                    updatedSVGContent = this.handleDragDecal(event);
+                } else if (this.rotating) {
+                    updatedSVGContent = this.handleRotateDecal(event);
+                } else if (this.scaling) {
+                    updatedSVGContent = this.handleScaleDecal(event);
+                }
+                
+
+                if (updatedSVGContent) {
+                    const activeDecal = this.svgElement?.querySelector(`g[${this.ATTR_NAME}*="decal"][${this.ATTR_ACTIVE}="true"]`) as SVGGraphicsElement | null;
+                
+                    if (!activeDecal) {
+                        this.updating = false;
+                        return;
+                    }
+
+                    const actualProps = this.getDecalProperties(activeDecal);
+
+                    this.decalSVGTexture?.updateSVGTexture(() => {
+                        requestAnimationFrame(() => {
+                            this.updating = false;
+                        });
+                    });
+                    this.emit('update', [{ 
+                        event, 
+                        updatedSVGContent, 
+                        dragging: this.dragging,
+                        rotating: this.rotating,
+                        scaling: this.scaling,
+                        pinching: this.pinching,
+                        props: actualProps
+                    }]);
+                } else {
+                    requestAnimationFrame(() => {
+                        this.updating = false;
+                    });
+                }
+            } else {
+                this.scheduleHover(event);
+            }
+        });
+
+        const onPointerUp = (event: PointerEvent) => {
+            this.activePointers.delete(event.pointerId);
+
+            /** Lifting one finger of a pinch ends the decal gesture, the remaining finger does nothing */
+            if (this.activePointers.size > 0) {
+                if (this.pinching) {
+                    this.pinching = false;
+                    this.dragging = false;
+                    this.rotating = false;
+                    this.scaling = false;
+                }
+
+                return;
+            }
+
+            if (this.deleting) {
+                this.deleteDecal();
+            }
+
+            if (this.duplicating) {
+                this.duplicateSelectedDecals();
+            }
+
+            this.clearGuides();
+
+            if (this.gestureHistoryOpen) {
+                this.gestureHistoryOpen = false;
+                this.endHistoryStep();
+            }
+
+            if (this.gesture) {
+                this.emit('gesture:end', [{ gesture: this.gesture, ids: this.getSelectedDecalIds() }]);
+                this.gesture = null;
+            }
+
+            this.dragging = false;
+            this.rotating = false;
+            this.scaling = false;
+            this.deleting = false;
+            this.duplicating = false;
+            this.pinching = false;
+
+            this.updateCameraControls();
+
+            if (this.interactionEnabled) {
+                this.decalSVGTexture?.updateSVGTexture();
+    
+                this.emit('update', [{ event, dragging: this.dragging }]);
+            }
+        };
+
+        this.addWindowListener('pointerup', onPointerUp);
+        this.addWindowListener('pointercancel', onPointerUp);
+    }
+
+    /**
+     * Emits a 'gesture:start' event when a pointerdown started dragging, rotating or scaling the selection.
+     */
+    private startGesture(): void {
+        this.gesture = this.dragging ? 'drag' : this.rotating ? 'rotate' : this.scaling ? 'scale' : null;
+
+        if (this.gesture) {
+            this.emit('gesture:start', [{ gesture: this.gesture, ids: this.getSelectedDecalIds() }]);
+        }
+    }
+
+    /**
+     * Adds a listener to the window and keeps it, so `dispose` can remove it.
+     *
+     * @param type - The event type.
+     * @param listener - The event listener.
+     * @param options - The listener options.
+     */
+    private addWindowListener<K extends keyof WindowEventMap>(type: K, listener: (event: WindowEventMap[K]) => void, options?: AddEventListenerOptions): void {
+        window.addEventListener(type, listener, options);
+        this.windowListeners.push({ type, listener: listener as EventListener, options });
+    }
+
+    /**
+     * Enables the camera controls only while no decal gesture is in progress,
+     * so OrbitControls does not pan, zoom or rotate the camera together with the decal.
+     */
+    private updateCameraControls(): void {
+        const gestureActive = this.dragging || this.rotating || this.scaling || this.pinching;
+
+        this.controls.enablePan = !gestureActive;
+        this.controls.enableZoom = !gestureActive;
+        this.controls.enableRotate = !gestureActive;
+    }
+
+    /**
+     * Starts a two-finger gesture on the current selection.
+     *
+     * Records the distance and angle between the two active pointers, together with the current
+     * rotation and scale of the selected decal (or every decal of a multi-selection), so that
+     * `handlePinchDecal` can apply the relative change.
+     */
+    private startPinchGesture(): void {
+        const [first, second] = Array.from(this.activePointers.values());
+        const selectedDecals = this.getSelectedDecals();
+        const activeDecal = selectedDecals[0];
+
+        if (!first || !second || !activeDecal) return;
+
+        this.pinching = true;
+        this.deleting = false;
+        this.duplicating = false;
+        this.pinchStartDistance = Math.hypot(second.x - first.x, second.y - first.y);
+        this.pinchStartAngle = Math.atan2(second.y - first.y, second.x - first.x) * (180 / Math.PI);
+        this.savedRotateAngle = parseFloat(activeDecal.getAttribute(this.ATTR_ROTATE) || '0');
+        this.savedScale = parseFloat(activeDecal.getAttribute(this.ATTR_SCALE) || '1');
+
+        if (selectedDecals.length > 1) {
+            const bbox = this.getSelectionBBox(selectedDecals);
+
+            if (bbox) {
+                this.selectionPivot = { x: bbox.x + bbox.width * 0.5, y: bbox.y + bbox.height * 0.5 };
+            }
+            this.selectionStart = this.snapshotSelection(selectedDecals);
+        }
+
+        this.updateCameraControls();
+    }
+
+    /**
+     * Applies the current two-finger gesture: the change of distance between the pointers scales
+     * and the change of their angle rotates the selection.
+     *
+     * @returns The updated SVG content as a string, or null if there is no active decal.
+     */
+    private handlePinchDecal(): string | null {
+        const [first, second] = Array.from(this.activePointers.values());
+        const activeDecal = this.getSelectedDecals()[0];
+
+        if (!this.svgElement || !activeDecal || !first || !second || !this.pinchStartDistance) return null;
+
+        const factor = Math.hypot(second.x - first.x, second.y - first.y) / this.pinchStartDistance;
+        const angle = Math.atan2(second.y - first.y, second.x - first.x) * (180 / Math.PI) - this.pinchStartAngle;
+
+        if (this.isMultiSelection()) {
+            this.transformSelection(0, 0, angle % 360, factor);
+        } else if (!this.isDecalLocked(activeDecal)) {
+            this.updateDecal(activeDecal.getAttribute(this.ATTR_NAME) || '', {
+                rotate: (this.savedRotateAngle + angle) % 360,
+                scale: this.savedScale * factor,
+            });
+        }
+
+        return this.XMLSerializer.serializeToString(this.svgElement);
+    }
+
+    /**
+     * Initializes the keyboard shortcuts.
+     *
+     * The renderer canvas is made focusable, and a 'keydown' listener on the window resolves the pressed
+     * key combination through the keymap. Shortcuts are ignored unless the canvas or its host container
+     * has focus, and never fire while typing into an editable element.
+     */
+    private initKeyboardListeners() {
+        const canvas = this.renderer.domElement;
+
+        if (!canvas.hasAttribute('tabindex')) {
+            canvas.tabIndex = 0;
+            this.canvasTabIndexAdded = true;
+        }
+
+        this.addWindowListener('keydown', (event: KeyboardEvent) => {
+            if (!this.keyboardEnabled || !this.interactionEnabled || !this.svgElement || !this.isKeyboardFocused(event)) return;
+
+            const action = (Object.keys(this.keymap) as SVGDecalsKeyAction[])
+                .find((keyAction) => this.keymap[keyAction].some((combo) => this.matchesKeyCombo(event, combo)));
+
+            if (!action || !this.getSelectedDecals().length) return;
+
+            event.preventDefault();
+            this.handleKeyAction(action);
+        });
+    }
+
+    /**
+     * Checks whether a keyboard event should be handled as a decal shortcut.
+     *
+     * @param event - The keyboard event.
+     * @returns True if the renderer canvas or its host container has focus and the target is not editable.
+     */
+    private isKeyboardFocused(event: KeyboardEvent): boolean {
+        const canvas = this.renderer.domElement;
+        const host = canvas.parentElement;
+        const focused = document.activeElement;
+        const target = event.target;
+
+        if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return false;
+        if (target instanceof HTMLElement && target.isContentEditable) return false;
+
+        return focused === canvas || (!!host && !!focused && host.contains(focused));
+    }
+
+    /**
+     * Checks whether a keyboard event matches a key combination such as `'Shift+ArrowLeft'` or `'Mod+d'`.
+     *
+     * Modifiers must match exactly, except Shift for symbol keys like `+` or `]`, which need Shift
+     * on some keyboard layouts only.
+     *
+     * @param event - The keyboard event.
+     * @param combo - The key combination.
+     * @returns True if the event matches the combination.
+     */
+    private matchesKeyCombo(event: KeyboardEvent, combo: string): boolean {
+        const parts = combo.endsWith('++')
+            ? [...combo.slice(0, -2).split('+'), '+']
+            : combo === '+' ? ['+'] : combo.split('+');
+        const key = parts.pop() || '';
+        const modifiers = parts.map((part) => part.toLowerCase());
+        const isMac = /Mac|iPhone|iPad/.test(navigator.platform);
+        const ctrl = modifiers.includes('ctrl') || (modifiers.includes('mod') && !isMac);
+        const meta = modifiers.includes('meta') || modifiers.includes('cmd') || (modifiers.includes('mod') && isMac);
+        const alt = modifiers.includes('alt');
+        const shift = modifiers.includes('shift');
+        const isSymbol = key.length === 1 && !/[a-z0-9]/i.test(key);
+
+        return event.key.toLowerCase() === key.toLowerCase()
+            && event.ctrlKey === ctrl
+            && event.metaKey === meta
+            && event.altKey === alt
+            && (isSymbol || event.shiftKey === shift);
+    }
+
+    /**
+     * Runs a keyboard shortcut action on the selected decals, updates the texture and emits an 'update' event.
+     *
+     * @param action - The action to run.
+     */
+    private handleKeyAction(action: SVGDecalsKeyAction): void {
+        if (!this.svgElement) return;
+
+        switch (action) {
+            case 'nudgeLeft': this.applyKeyboardTransform(-this.NUDGE_STEP, 0, 0, 1); break;
+            case 'nudgeRight': this.applyKeyboardTransform(this.NUDGE_STEP, 0, 0, 1); break;
+            case 'nudgeUp': this.applyKeyboardTransform(0, -this.NUDGE_STEP, 0, 1); break;
+            case 'nudgeDown': this.applyKeyboardTransform(0, this.NUDGE_STEP, 0, 1); break;
+            case 'nudgeLeftLarge': this.applyKeyboardTransform(-this.NUDGE_STEP_LARGE, 0, 0, 1); break;
+            case 'nudgeRightLarge': this.applyKeyboardTransform(this.NUDGE_STEP_LARGE, 0, 0, 1); break;
+            case 'nudgeUpLarge': this.applyKeyboardTransform(0, -this.NUDGE_STEP_LARGE, 0, 1); break;
+            case 'nudgeDownLarge': this.applyKeyboardTransform(0, this.NUDGE_STEP_LARGE, 0, 1); break;
+            case 'rotateLeft': this.applyKeyboardTransform(0, 0, -this.ROTATE_STEP, 1); break;
+            case 'rotateRight': this.applyKeyboardTransform(0, 0, this.ROTATE_STEP, 1); break;
+            case 'scaleUp': this.applyKeyboardTransform(0, 0, 0, this.SCALE_STEP); break;
+            case 'scaleDown': this.applyKeyboardTransform(0, 0, 0, 1 / this.SCALE_STEP); break;
+            case 'delete':
+                this.deleteDecal();
+                break;
+            case 'duplicate':
+                this.duplicateSelectedDecals();
+                break;
+            case 'deselect':
+                this.deactivateAllDecals();
+                break;
+        }
+
+        this.emitDecalsUpdate();
+    }
+
+    /**
+     * Updates the texture and emits an 'update' event with the properties of the first selected decal.
+     */
+    private emitDecalsUpdate(): void {
+        if (!this.svgElement) return;
+
+        const activeDecal = this.getSelectedDecals()[0];
+
+        this.decalSVGTexture?.updateSVGTexture();
+
+        this.emit('update', [{
+            updatedSVGContent: this.XMLSerializer.serializeToString(this.svgElement),
+            dragging: this.dragging,
+            rotating: this.rotating,
+            scaling: this.scaling,
+            props: activeDecal ? this.getDecalProperties(activeDecal) : null
+        }]);
+    }
+
+    /**
+     * Reads the position of a decal in SVG units.
+     *
+     * @param decal - The decal group element.
+     * @returns The stored position.
+     */
+    private getDecalPosition(decal: Element): { x: number; y: number } {
+        return {
+            x: parseFloat(decal.getAttribute(this.ATTR_POSX) || '0'),
+            y: parseFloat(decal.getAttribute(this.ATTR_POSY) || '0'),
+        };
+    }
+
+    /**
+     * Returns the bounding box of a decal's container in SVG units.
+     *
+     * @param decal - The decal group element.
+     * @returns The bounding box, or null if the decal has no container.
+     */
+    private getDecalBBox(decal: SVGGraphicsElement): DOMRect | null {
+        const containerElement = decal.querySelector(`[${this.ATTR_NAME}="${this.ATTR_CONTAINER}"]`);
+
+        return containerElement instanceof SVGGraphicsElement ? this.getElementBBox(containerElement, decal, false) : null;
+    }
+
+    /**
+     * Moves a decal by an offset relative to its current position.
+     *
+     * @param decal - The decal group element.
+     * @param dx - Offset along X in SVG units.
+     * @param dy - Offset along Y in SVG units.
+     */
+    private moveDecalBy(decal: SVGGraphicsElement, dx: number, dy: number): void {
+        if (!dx && !dy) return;
+
+        this.updateDecal(decal.getAttribute(this.ATTR_NAME) || '', {
+            x: parseFloat(decal.getAttribute(this.ATTR_POSX) || '0') + dx,
+            y: parseFloat(decal.getAttribute(this.ATTR_POSY) || '0') + dy,
+        });
+    }
+
+    /**
+     * Finds the offset that snaps a bounding box to the closest grid line, SVG center line or edge/center of another decal,
+     * and draws guide lines for the snap targets that were hit.
+     *
+     * Each axis is snapped independently, using the box's start edge, center and end edge as candidates.
+     * Only snap targets closer than the configured threshold are considered.
+     *
+     * @param bbox - The bounding box of the dragged decal or selection, at its unsnapped position.
+     * @param exclude - Decals that are being dragged and must not be snapped to.
+     * @returns The offset to add to the dragged position, zero on axes without a snap target in range.
+     */
+    private snapBBox(bbox: DOMRect, exclude: SVGGraphicsElement[]): { x: number; y: number } {
+        const targetsX: number[] = [];
+        const targetsY: number[] = [];
+
+        if (this.snapping.center) {
+            targetsX.push(this.SVG_WIDTH * 0.5);
+            targetsY.push(this.SVG_HEIGHT * 0.5);
+        }
+
+        if (this.snapping.decals) {
+            this.getDecalElements()
+                .filter((decal) => !exclude.includes(decal) && decal.getAttribute(this.ATTR_VISIBLE) !== 'false')
+                .forEach((decal) => {
+                    const decalBBox = this.getDecalBBox(decal);
+
+                    if (!decalBBox) return;
+
+                    targetsX.push(decalBBox.x, decalBBox.x + decalBBox.width * 0.5, decalBBox.x + decalBBox.width);
+                    targetsY.push(decalBBox.y, decalBBox.y + decalBBox.height * 0.5, decalBBox.y + decalBBox.height);
+                });
+        }
+
+        const findSnap = (start: number, size: number, targets: number[]): { offset: number; line: number } | null => {
+            const candidates = [start, start + size * 0.5, start + size];
+            let best: { offset: number; line: number } | null = null;
+
+            candidates.forEach((candidate) => {
+                const gridLine = this.snapping.grid > 0 ? Math.round(candidate / this.snapping.grid) * this.snapping.grid : null;
+
+                [...targets, ...(gridLine !== null ? [gridLine] : [])].forEach((target) => {
+                    const offset = target - candidate;
+
+                    if (Math.abs(offset) <= this.snapping.threshold && (!best || Math.abs(offset) < Math.abs(best.offset))) {
+                        best = { offset, line: target };
+                    }
+                });
+            });
+
+            return best;
+        };
+
+        const snapX = findSnap(bbox.x, bbox.width, targetsX);
+        const snapY = findSnap(bbox.y, bbox.height, targetsY);
+
+        this.drawGuides(snapX?.line ?? null, snapY?.line ?? null);
+
+        return { x: snapX?.offset ?? 0, y: snapY?.offset ?? 0 };
+    }
+
+    /**
+     * Draws the snap guide lines across the whole SVG, replacing the previous ones.
+     *
+     * @param x - Position of the vertical guide line, or null to hide it.
+     * @param y - Position of the horizontal guide line, or null to hide it.
+     */
+    private drawGuides(x: number | null, y: number | null): void {
+        if (!this.svgElement) return;
+
+        let guidesGroup = this.svgElement.querySelector(`:scope > [${this.ATTR_NAME}="${this.ATTR_GUIDES}"]`);
+
+        if (!guidesGroup) {
+            guidesGroup = document.createElementNS(this.SVG_NS, 'g');
+            guidesGroup.setAttribute(this.ATTR_NAME, this.ATTR_GUIDES);
+        }
+
+        guidesGroup.innerHTML = '';
+        this.svgElement.appendChild(guidesGroup);
+
+        if (x !== null) {
+            const line = document.createElementNS(this.SVG_NS, 'line');
+
+            line.setAttribute('x1', x.toString());
+            line.setAttribute('y1', '0');
+            line.setAttribute('x2', x.toString());
+            line.setAttribute('y2', this.SVG_HEIGHT.toString());
+            guidesGroup.appendChild(line);
+        }
+        if (y !== null) {
+            const line = document.createElementNS(this.SVG_NS, 'line');
+
+            line.setAttribute('x1', '0');
+            line.setAttribute('y1', y.toString());
+            line.setAttribute('x2', this.SVG_WIDTH.toString());
+            line.setAttribute('y2', y.toString());
+            guidesGroup.appendChild(line);
+        }
+    }
+
+    /**
+     * Stores the UV island under the center of a decal as the island the decal was placed on.
+     *
+     * @param decal - The decal group element.
+     */
+    private assignIsland(decal: SVGGraphicsElement): void {
+        const bbox = this.getDecalBBox(decal);
+
+        if (!bbox || !this.uvIslands.count) return;
+
+        const island = this.uvIslands.getIslandAt(
+            (bbox.x + bbox.width * 0.5) / this.SVG_WIDTH,
+            (bbox.y + bbox.height * 0.5) / this.SVG_HEIGHT,
+        );
+
+        if (island >= 0) {
+            decal.setAttribute(this.ATTR_ISLAND, island.toString());
+        } else {
+            decal.removeAttribute(this.ATTR_ISLAND);
+        }
+    }
+
+    /**
+     * Moves an updated decal back inside the UV island it was placed on, or back to its previous position
+     * if it cannot be confined there.
+     *
+     * @param decal - The updated decal group element.
+     * @param previousPosition - The position of the decal before the update, in SVG units.
+     */
+    private confineDecal(decal: SVGGraphicsElement, previousPosition: { x: number; y: number }): void {
+        const x = parseFloat(decal.getAttribute(this.ATTR_POSX) || '0');
+        const y = parseFloat(decal.getAttribute(this.ATTR_POSY) || '0');
+        const position = this.confineToIsland(decal, x, y) || previousPosition;
+
+        if (position.x === x && position.y === y) return;
+
+        const wasUpdating = this.updating;
+
+        /** The texture is updated by the update being confined */
+        this.updating = true;
+        this.confining = true;
+
+        try {
+            this.updateDecal(decal.getAttribute(this.ATTR_NAME) || '', position);
+        } finally {
+            this.updating = wasUpdating;
+            this.confining = false;
+        }
+    }
+
+    /**
+     * Keeps a decal inside the UV island it was placed on.
+     *
+     * The decal's bounding box is clamped to the island bounds (or centered on the island if it is larger),
+     * and the move is rejected if the center of the decal would still end up outside the island.
+     * Without confinement, or for decals not placed on an island, the position is returned unchanged.
+     *
+     * @param decal - The decal group element.
+     * @param x - The requested X position in SVG units.
+     * @param y - The requested Y position in SVG units.
+     * @returns The confined position, or null if the decal cannot be moved there.
+     */
+    private confineToIsland(decal: SVGGraphicsElement, x: number, y: number): { x: number; y: number } | null {
+        const island = parseInt(decal.getAttribute(this.ATTR_ISLAND) || '', 10);
+        const islandBounds = this.confineIslands && !isNaN(island) ? this.uvIslands.getIslandBounds(island) : null;
+        const bbox = islandBounds ? this.getDecalBBox(decal) : null;
+
+        if (!islandBounds || !bbox) return { x, y };
+
+        const minX = islandBounds.min.x * this.SVG_WIDTH;
+        const minY = islandBounds.min.y * this.SVG_HEIGHT;
+        const maxX = islandBounds.max.x * this.SVG_WIDTH;
+        const maxY = islandBounds.max.y * this.SVG_HEIGHT;
+        const left = bbox.x + x - parseFloat(decal.getAttribute(this.ATTR_POSX) || '0');
+        const top = bbox.y + y - parseFloat(decal.getAttribute(this.ATTR_POSY) || '0');
+        const clampedLeft = bbox.width > maxX - minX
+            ? (minX + maxX - bbox.width) * 0.5
+            : THREE.MathUtils.clamp(left, minX, maxX - bbox.width);
+        const clampedTop = bbox.height > maxY - minY
+            ? (minY + maxY - bbox.height) * 0.5
+            : THREE.MathUtils.clamp(top, minY, maxY - bbox.height);
+        const centerIsland = this.uvIslands.getIslandAt(
+            (clampedLeft + bbox.width * 0.5) / this.SVG_WIDTH,
+            (clampedTop + bbox.height * 0.5) / this.SVG_HEIGHT,
+        );
+
+        if (centerIsland !== island) return null;
+
+        return { x: x + clampedLeft - left, y: y + clampedTop - top };
+    }
+
+    /**
+     * Emits a 'warning' event when a decal's bounding box starts to span several UV islands or empty texture space,
+     * where it would be split across seams or partly invisible on the model.
+     *
+     * A warning is emitted once per change of the covered islands, not on every update.
+     *
+     * @param decal - The decal group element.
+     */
+    private checkIslands(decal: SVGGraphicsElement): void {
         const id = decal.getAttribute(this.ATTR_NAME) || '';
+        const bbox = this.getDecalBBox(decal);
 
-        return { text, color, scale, rotate, x, y, id };
-    }
+        if (!bbox || !this.uvIslands.count || decal.getAttribute(this.ATTR_VISIBLE) === 'false') {
+            this.islandWarnings.delete(id);
+            return;
+        }
+
+        const { islands, empty } = this.uvIslands.getIslandsInRect(
+            new THREE.Vector2(bbox.x / this.SVG_WIDTH, bbox.y / this.SVG_HEIGHT),
+            new THREE.Vector2((bbox.x + bbox.width) / this.SVG_WIDTH, (bbox.y + bbox.height) / this.SVG_HEIGHT),
+        );
+
+        if (islands.length <= 1 && !empty) {
+            this.islandWarnings.delete(id);
+            return;
+        }
 
+        const warningKey = `${islands.join(',')}|${empty}`;
 
+        if (this.islandWarnings.get(id) === warningKey) return;
 
-    // ──────────────────────────────────────────────────────────────
-    // Private Methods
-    // ──────────────────────────────────────────────────────────────
+        this.islandWarnings.set(id, warningKey);
+
+        console.warn(`Decal ${id} spans ${islands.length} UV islands${empty ? ' and empty texture space' : ''}.`);
+
+        this.emit('warning', [{
+            id,
+            type: 'uv-islands',
+            islands,
+            emptySpace: empty,
+        }]);
+    }
 
     /**
-     * Initializes event listeners for mouse interactions.
-     *
-     * This method attaches event listeners for 'mousedown', 'mousemove', and 'mouseup' events to the window.
-     * - On mousedown, it checks if interaction is enabled, validates the event target, and determines intersections with decals, control handles, and content.
-     *   Based on which element is interacted with, it sets flags for dragging, rotating, scaling, or deleting, and disables camera controls accordingly.
-     *   It also serializes the updated SVG content and emits an 'update' event with the initial properties.
+     * Removes the snap guide lines.
+     */
+    private clearGuides(): void {
+        this.svgElement?.querySelector(`:scope > [${this.ATTR_NAME}="${this.ATTR_GUIDES}"]`)?.remove();
+    }
+
+    /**
+     * Duplicates every selected decal as one undoable step and selects the copies.
+     */
+    private duplicateSelectedDecals(): void {
+        const duplicates = this.recordHistory('duplicateDecal', () => this.getSelectedDecalIds()
+            .map((id) => this.duplicateDecal(id))
+            .filter((id): id is string => id !== null));
+
+        this.deactivateAllDecals();
+        this.getDecalElements()
+            .filter((decal) => duplicates.includes(decal.getAttribute(this.ATTR_NAME) || ''))
+            .forEach((decal) => this.activateDecal(decal, true));
+    }
+
+    /**
+     * Moves, rotates and scales the selected decals around the center of the selection as one undoable step.
      *
-     * - On mousemove, if dragging, rotating, or scaling is active, it updates the SVG decal accordingly by calling the appropriate handler.
-     *   It then updates the texture and emits an 'update' event with the current state.
+     * @param dx - Translation along X in SVG units.
+     * @param dy - Translation along Y in SVG units.
+     * @param angle - Rotation in degrees.
+     * @param factor - Scale factor.
+     */
+    private applyKeyboardTransform(dx: number, dy: number, angle: number, factor: number): void {
+        const selectedDecals = this.getSelectedDecals();
+        const bbox = this.getSelectionBBox(selectedDecals);
+
+        if (!bbox) return;
+
+        this.selectionPivot = { x: bbox.x + bbox.width * 0.5, y: bbox.y + bbox.height * 0.5 };
+        this.selectionStart = this.snapshotSelection(selectedDecals);
+
+        this.recordHistory('keyboard', () => this.transformSelection(dx, dy, angle, factor));
+    }
+
+    /**
+     * Merges the constructor options with the defaults.
      *
-     * - On mouseup, it finalizes the current interaction:
-     *   If the deletion flag is set, the active decal is removed.
-     *   All interaction flags are reset and controls are re-enabled.
-     *   Finally, the SVG texture is updated and an 'update' event is emitted.
+     * Every invalid option is reported with a warning and replaced by its default value,
+     * so a misconfigured instance still works.
      *
-     * @remarks
-     * This method ensures that the decal transformations, texture updates, and event emissions operate in sync during user interactions.
+     * @param options - The options passed to the constructor.
+     * @returns The complete, validated options.
      */
-    private initEventListeners() {
-        window.addEventListener('mousedown', (event: MouseEvent) => {
-            if (!this.interactionEnabled || !this.svgElement || event.target !== this.renderer.domElement) return;
+    private validateOptions(options: SVGDecalsOptions): ResolvedDecalsOptions {
+        const defaults = DEFAULT_DECALS_OPTIONS;
+        const warn = (name: string, value: unknown, fallback: unknown) => {
+            console.warn(`Invalid SVGDecals option "${name}": ${JSON.stringify(value)}. Using ${JSON.stringify(fallback)}.`);
+        };
+        const number = <K extends keyof ResolvedDecalsOptions>(name: K, min: number, integer: boolean = false): number => {
+            const value = options[name];
+            const fallback = defaults[name] as number;
+
+            if (value === undefined) return fallback;
+            if (typeof value !== 'number' || !Number.isFinite(value) || value < min || (integer && !Number.isInteger(value))) {
+                warn(name, value, fallback);
+                return fallback;
+            }
 
-            this.startScalePos = {x: event.clientX, y: event.clientY};
+            return value;
+        };
+        const string = <K extends keyof ResolvedDecalsOptions>(name: K): string => {
+            const value = options[name];
+            const fallback = defaults[name] as string;
 
-            const intersects = this.getMouseIntersections(event);
+            if (value === undefined) return fallback;
+            if (typeof value !== 'string' || !value.trim()) {
+                warn(name, value, fallback);
+                return fallback;
+            }
 
-            if (this.placeDecalMode && intersects.length && intersects[0].uv) {
-                this.putDecal(new THREE.Vector2(intersects[0].uv.x * this.SVG_WIDTH, intersects[0].uv.y * this.SVG_HEIGHT));
+            return value;
+        };
+        const boolean = <K extends keyof ResolvedDecalsOptions>(name: K): boolean => {
+            const value = options[name];
+            const fallback = defaults[name] as boolean;
 
-                this.placeDecalMode = false;
+            if (value === undefined) return fallback;
+            if (typeof value !== 'boolean') {
+                warn(name, value, fallback);
+                return fallback;
             }
 
-            const decalIntersected = this.selectDecalInIntersection(intersects);
-            const controlIntersected = this.useControlByClickedPosition(intersects);
-            const contentIntersected = this.useContentByClickedPosition(intersects);
-            const updatedSVGContent = this.XMLSerializer.serializeToString(this.svgElement);
-
-            // console.log('intersects[0].uv', intersects[0].uv, intersects[0].point, intersects[0].object, intersects[0].normal);
+            return value;
+        };
 
-            console.log('controlIntersected', controlIntersected);
-            console.log('contentIntersected', contentIntersected);
+        const surfaceModes: SVGDecalsSurfaceMode[] = ['shared', 'mesh', 'material'];
+        let surfaceMode = options.surfaceMode ?? defaults.surfaceMode;
 
-            this.dragging = decalIntersected && contentIntersected !== null;
-            this.rotating = decalIntersected && controlIntersected !== null && controlIntersected.getAttribute(this.ATTR_NAME) === this.ATTR_CONTROL_ROTATE;
-            this.scaling = decalIntersected && controlIntersected !== null && controlIntersected.getAttribute(this.ATTR_NAME) === this.ATTR_CONTROL_SCALE;
-            this.deleting = decalIntersected && controlIntersected !== null && controlIntersected.getAttribute(this.ATTR_NAME) === this.ATTR_CONTROL_DELETE;
-            this.controls.enablePan = !this.dragging && !this.rotating && !this.scaling;
-            this.controls.enableZoom = !this.dragging && !this.rotating && !this.scaling;
-            this.controls.enableRotate = !this.dragging && !this.rotating && !this.scaling;
+        if (!surfaceModes.includes(surfaceMode)) {
+            warn('surfaceMode', surfaceMode, defaults.surfaceMode);
+            surfaceMode = defaults.surfaceMode;
+        }
 
-            this.decalSVGTexture?.updateSVGTexture();
+        const controlsModes: SVGDecalsControlsMode[] = ['texture', 'overlay'];
+        let controlsMode = options.controlsMode ?? defaults.controlsMode;
 
-            if (decalIntersected) {
-                const activeDecal = this.svgElement.querySelector(`g[${this.ATTR_NAME}*="decal"][${this.ATTR_ACTIVE}="true"]`) as SVGGraphicsElement | null;
-                
-                if (!activeDecal) return;
+        if (!controlsModes.includes(controlsMode)) {
+            warn('controlsMode', controlsMode, defaults.controlsMode);
+            controlsMode = defaults.controlsMode;
+        }
 
-                const actualProps = this.getDecalProperties(activeDecal);
+        const controlOffsets = { ...defaults.controlOffsets };
 
-                this.emit('update', [{ 
-                    event, 
-                    updatedSVGContent, 
-                    dragging: this.dragging,
-                    rotating: this.rotating,
-                    scaling: this.scaling,
-                    props: actualProps
-                }]);
+        Object.entries(options.controlOffsets || {}).forEach(([control, offset]) => {
+            if (!(control in controlOffsets)) {
+                warn(`controlOffsets.${control}`, offset, undefined);
+            } else if (!offset || !Number.isFinite(offset.x) || !Number.isFinite(offset.y)) {
+                warn(`controlOffsets.${control}`, offset, controlOffsets[control as SVGDecalsControl]);
+            } else {
+                controlOffsets[control as SVGDecalsControl] = { x: offset.x, y: offset.y };
             }
         });
 
-        window.addEventListener('mousemove', (event: MouseEvent) => {
-            if (!this.interactionEnabled || this.updating) return;
+        const keymap = { ...defaults.keymap };
 
-            this.controls.enablePan = !this.dragging && !this.rotating && !this.scaling;
-            this.controls.enableZoom = !this.dragging && !this.rotating && !this.scaling;
-            this.controls.enableRotate = !this.dragging && !this.rotating && !this.scaling;
+        Object.entries(options.keymap || {}).forEach(([action, combos]) => {
+            if (!(action in keymap)) {
+                warn(`keymap.${action}`, combos, undefined);
+            } else if (!Array.isArray(combos) || combos.some((combo) => typeof combo !== 'string')) {
+                warn(`keymap.${action}`, combos, keymap[action as SVGDecalsKeyAction]);
+            } else {
+                keymap[action as SVGDecalsKeyAction] = [...combos];
+            }
+        });
 
-            if (this.dragging || this.rotating || this.scaling) {
-                this.updating = true;
+        const snapping = { ...defaults.snapping, ...options.snapping };
 
-                console.time('dragging');
+        if (typeof snapping.enabled !== 'boolean') {
+            warn('snapping.enabled', snapping.enabled, defaults.snapping.enabled);
+            snapping.enabled = defaults.snapping.enabled;
+        }
+        if (typeof snapping.center !== 'boolean') {
+            warn('snapping.center', snapping.center, defaults.snapping.center);
+            snapping.center = defaults.snapping.center;
+        }
+        if (typeof snapping.decals !== 'boolean') {
+            warn('snapping.decals', snapping.decals, defaults.snapping.decals);
+            snapping.decals = defaults.snapping.decals;
+        }
+        if (!Number.isFinite(snapping.grid) || snapping.grid < 0) {
+            warn('snapping.grid', snapping.grid, defaults.snapping.grid);
+            snapping.grid = defaults.snapping.grid;
+        }
+        if (!Number.isFinite(snapping.threshold) || snapping.threshold < 0) {
+            warn('snapping.threshold', snapping.threshold, defaults.snapping.threshold);
+            snapping.threshold = defaults.snapping.threshold;
+        }
 
-                let updatedSVGContent: string | null = null;
+        return {
+            width: number('width', 1),
+            height: number('height', 1),
+            textureSize: number('textureSize', 1, true),
+            surfaceMode,
+            defaultFill: string('defaultFill'),
+            fontFamily: string('fontFamily'),
+            textSize: number('textSize', Number.MIN_VALUE),
+            imageSize: number('imageSize', Number.MIN_VALUE),
+            controlOffsets,
+            controlsMode,
+            maxPlacementAttempts: number('maxPlacementAttempts', 0, true),
+            historyLimit: number('historyLimit', 1, true),
+            islandResolution: number('islandResolution', 1, true),
+            keyboardShortcuts: boolean('keyboardShortcuts'),
+            keymap,
+            snapping,
+            confineToIslands: boolean('confineToIslands'),
+            distortionCompensation: boolean('distortionCompensation'),
+            hoverOutline: boolean('hoverOutline'),
+        };
+    }
 
-                if (this.dragging) {
-                    updatedSVGContent = this.handleDragDecal(event);
-                } else if (this.rotating) {
-                    updatedSVGContent = this.handleRotateDecal(event);
-                } else if (this.scaling) {
-                    updatedSVGContent = this.handleScaleDecal(event);
-                }
-                
+    /**
+     * Creates a decal surface with its own decal material and SVG texture.
+     *
+     * @param name - The preferred surface id, suffixed with a number if it is already taken.
+     * @returns The new surface.
+     */
+    private createSurface(name: string): DecalSurface {
+        let id = name;
 
-                console.timeLog('dragging', 'updatedSVGContent');
+        for (let i = 2; this.surfaces.has(id); i++) {
+            id = `${name}-${i}`;
+        }
 
-                if (updatedSVGContent) {
-                    const activeDecal = this.svgElement?.querySelector(`g[${this.ATTR_NAME}*="decal"][${this.ATTR_ACTIVE}="true"]`) as SVGGraphicsElement | null;
-                
-                    if (!activeDecal) return;
+        /** Material for the decal meshes. */
+        const material = new THREE.MeshStandardMaterial({
+            name: `decalMaterial-${id}`,
+            transparent: true,
+            opacity: 1,
+            visible: true,
+        });
+        /** SVGTexture instance for the decal. */
+        const texture = new SVGTexture(this.decalSVGInitial, material, this.textureSize);
 
-                    const actualProps = this.getDecalProperties(activeDecal);
+        texture.setFontRegistry(this.fonts);
 
-                    this.decalSVGTexture?.updateSVGTexture(() => {
-                        console.timeEnd('dragging');
+        if (material.map) {
+            material.map.flipY = false;
+        }
 
-                        requestAnimationFrame(() => {
-                            this.updating = false;
-                        });
-                    });
-                    this.emit('update', [{ 
-                        event, 
-                        updatedSVGContent, 
-                        dragging: this.dragging,
-                        rotating: this.rotating,
-                        scaling: this.scaling,
-                        props: actualProps
-                    }]);
+        const surface: DecalSurface = {
+            id,
+            material,
+            texture,
+            svgElement: texture.getSVGElement(),
+            uvIslands: new UVIslands(this.islandResolution),
+            meshes: [],
+        };
 
-                    console.timeLog('dragging', 'this.emit update');
-                } else {
-                    requestAnimationFrame(() => {
-                        this.updating = false;
-                    });
-                }
-            }
-        });
-        window.addEventListener('mouseup', (event) => {
-            if (this.deleting) {
-                this.deleteDecal();
-            }
+        /** Tags the SVG, so its decals are loaded back into this surface from exported files */
+        surface.svgElement?.setAttribute(this.ATTR_SURFACE, id);
+        this.surfaces.set(id, surface);
 
-            this.dragging = false;
-            this.rotating = false;
-            this.scaling = false;
-            this.deleting = false;
+        return surface;
+    }
 
-            this.controls.enablePan = !this.dragging && !this.rotating && !this.scaling;
-            this.controls.enableZoom = !this.dragging && !this.rotating && !this.scaling;
-            this.controls.enableRotate = !this.dragging && !this.rotating && !this.scaling;
+    /**
+     * Points the SVG element, texture and UV islands used by all decal methods to a surface.
+     *
+     * @param surface - The surface to use.
+     */
+    private useSurface(surface: DecalSurface): void {
+        this.activeSurfaceId = surface.id;
+        this.decalSVGTexture = surface.texture;
+        this.svgElement = surface.svgElement;
+        this.uvIslands = surface.uvIslands;
+    }
 
-            if (this.interactionEnabled) {
-                this.decalSVGTexture?.updateSVGTexture();
-    
-                this.emit('update', [{ event, dragging: this.dragging }]);
-            }
-        });
+    /**
+     * Activates the decal surface of the first intersected mesh, if it has one.
+     *
+     * @param intersects - The intersections of the pointer ray.
+     */
+    private useSurfaceByIntersection(intersects: THREE.Intersection[]): void {
+        const surface = intersects.length ? this.surfaceByObject.get(intersects[0].object) : undefined;
+
+        if (surface && surface.id !== this.activeSurfaceId) {
+            this.setActiveSurface(surface.id);
+        }
     }
 
     /**
@@ -600,16 +3595,22 @@ export class SVGDecals extends EventEmitter {
      * into the scene and returns the intersection details.
      *
      * @param event - The mouse event containing the clientX and clientY values and a target canvas element.
+     * @param activeSurfaceOnly - Whether to keep only intersections with meshes painted by the active decal surface.
      * @returns An array of THREE.Intersection objects representing the intersections with the scene's children.
-     *          If the event target is not an HTMLCanvasElement, an empty array is returned.
+     *          If the event target is neither an HTMLCanvasElement nor part of the controls overlay, an empty array is returned.
      */
-    private getMouseIntersections(event: MouseEvent): THREE.Intersection[] {
-        if (!(event.target instanceof HTMLCanvasElement)) return [];
+    private getMouseIntersections(event: MouseEvent, activeSurfaceOnly: boolean = false): THREE.Intersection[] {
+        /** Pointers over the controls overlay are raycast through the renderer canvas below it */
+        const canvas = event.target instanceof HTMLCanvasElement
+            ? event.target
+            : this.overlayElement?.contains(event.target as Node) ? this.renderer.domElement : null;
+
+        if (!canvas) return [];
 
         console.time('getMouseIntersections');
 
         const mouse = new THREE.Vector2();
-        const rect = event.target.getBoundingClientRect();
+        const rect = canvas.getBoundingClientRect();
 
         console.timeLog('getMouseIntersections', 'getBoundingClientRect');
         mouse.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
@@ -618,7 +3619,8 @@ export class SVGDecals extends EventEmitter {
         this.raycaster.setFromCamera(mouse, this.camera);
         this.raycaster.firstHitOnly = true;
 
-        const intersects = this.raycaster.intersectObjects(this.scene.children, true);
+        const intersects = this.raycaster.intersectObjects(this.scene.children, true)
+            .filter((intersection) => !activeSurfaceOnly || this.surfaceByObject.get(intersection.object)?.id === this.activeSurfaceId);
 
         console.timeEnd('getMouseIntersections');
 
@@ -679,54 +3681,162 @@ export class SVGDecals extends EventEmitter {
 
         if (object instanceof THREE.Mesh && object.geometry.attributes.uv) {
             const posAttr = object.geometry.attributes.position;
-            const uvAttr = object.geometry.attributes.uv;
-            const indexAttr = object.geometry.index;
-
-            if (!posAttr || !uvAttr) return position;
 
-            const triangle = [0, 0, 0]; // Indices
-            const uvA = new THREE.Vector2(), uvB = new THREE.Vector2(), uvC = new THREE.Vector2();
-            const posA = new THREE.Vector3(), posB = new THREE.Vector3(), posC = new THREE.Vector3();
-
-            const triangleCount = indexAttr ? indexAttr.count / 3 : posAttr.count / 3;
+            if (!posAttr) return position;
 
             console.time('getMeshPointByMeshUV');
 
-            for (let i = 0; i < triangleCount; i++) {
-                // Get triangle vertex indices
-                for (let j = 0; j < 3; j++) {
-                    triangle[j] = indexAttr ? indexAttr.getX(i * 3 + j) : i * 3 + j;
-                }
-
-                // Get triangle UVs
-                uvA.fromBufferAttribute(uvAttr, triangle[0]);
-                uvB.fromBufferAttribute(uvAttr, triangle[1]);
-                uvC.fromBufferAttribute(uvAttr, triangle[2]);
-
-                // Check if UV is inside this triangle
-                const barycoord = this.uvToBarycentric(uv, uvA, uvB, uvC);
-                if (barycoord && barycoord.x >= 0 && barycoord.y >= 0 && barycoord.z >= 0) {
-                    console.timeEnd('getMeshPointByMeshUV');
-
-                    // Interpolate position using barycentric coords
-                    posA.fromBufferAttribute(posAttr, triangle[0]);
-                    posB.fromBufferAttribute(posAttr, triangle[1]);
-                    posC.fromBufferAttribute(posAttr, triangle[2]);
-
-                    return object.localToWorld(new THREE.Vector3()
-                        .addScaledVector(posA, barycoord.x)
-                        .addScaledVector(posB, barycoord.y)
-                        .addScaledVector(posC, barycoord.z));
-                }
-            }
+            const found = this.findTriangleByUV(object, uv);
 
             console.timeEnd('getMeshPointByMeshUV');
 
-            return position; // UV not found in any triangle
+            if (!found) return position; // UV not found in any triangle
+
+            const { triangle, barycoord } = found;
+            const posA = new THREE.Vector3().fromBufferAttribute(posAttr, triangle[0]);
+            const posB = new THREE.Vector3().fromBufferAttribute(posAttr, triangle[1]);
+            const posC = new THREE.Vector3().fromBufferAttribute(posAttr, triangle[2]);
+
+            // Interpolate position using barycentric coords
+            return object.localToWorld(new THREE.Vector3()
+                .addScaledVector(posA, barycoord.x)
+                .addScaledVector(posB, barycoord.y)
+                .addScaledVector(posC, barycoord.z));
         }
 
         return position;
     }
+
+    /**
+     * Finds the triangle of a mesh whose UVs contain the provided UV coordinate.
+     *
+     * @param object - The mesh with position and UV attributes.
+     * @param uv - The UV coordinate to locate.
+     * @returns The vertex indices of the triangle and the barycentric coordinates of the UV inside it,
+     *          or null if the UV coordinate is not inside any triangle.
+     */
+    private findTriangleByUV(object: THREE.Mesh, uv: THREE.Vector2): { triangle: number[]; barycoord: THREE.Vector3 } | null {
+        const posAttr = object.geometry.attributes.position;
+        const uvAttr = object.geometry.attributes.uv;
+        const indexAttr = object.geometry.index;
+
+        if (!posAttr || !uvAttr) return null;
+
+        const uvA = new THREE.Vector2(), uvB = new THREE.Vector2(), uvC = new THREE.Vector2();
+        const triangleCount = indexAttr ? indexAttr.count / 3 : posAttr.count / 3;
+
+        for (let i = 0; i < triangleCount; i++) {
+            // Get triangle vertex indices
+            const triangle = [0, 1, 2].map((j) => indexAttr ? indexAttr.getX(i * 3 + j) : i * 3 + j);
+
+            // Get triangle UVs
+            uvA.set(uvAttr.getX(triangle[0]), uvAttr.getY(triangle[0]));
+            uvB.set(uvAttr.getX(triangle[1]), uvAttr.getY(triangle[1]));
+            uvC.set(uvAttr.getX(triangle[2]), uvAttr.getY(triangle[2]));
+
+            // Check if UV is inside this triangle
+            const barycoord = this.uvToBarycentric(uv, uvA, uvB, uvC);
+
+            if (barycoord && barycoord.x >= 0 && barycoord.y >= 0 && barycoord.z >= 0) {
+                return { triangle, barycoord };
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Computes the rotation and stretch that make a decal placed at a UV coordinate look upright and undistorted
+     * on the surface, as seen from the current camera.
+     *
+     * The UV Jacobian of the triangle under the UV coordinate gives the world-space surface directions along U and V.
+     * The camera's right and up axes are projected onto the surface plane and expressed in UV space, which yields
+     * the texture-space directions the decal's X and Y axes must follow. The rotation follows the X axis, the stretch
+     * follows the lengths of both axes normalized to keep the decal's area, and mirrored UVs are reported separately
+     * so they can be compensated with `flipY`. Shear between the two axes is ignored.
+     *
+     * @param uv - The UV coordinate of the decal center, in the range [0, 1].
+     * @returns The rotation in degrees, the stretch factors and whether the UVs are mirrored,
+     *          or null if no surface is found at the UV coordinate or its UVs are degenerate.
+     */
+    private computeDistortionCompensation(uv: THREE.Vector2): { rotate: number; scaleX: number; scaleY: number; mirrored: boolean } | null {
+        let frame: { tangentU: THREE.Vector3; tangentV: THREE.Vector3 } | null = null;
+
+        this.surfaces.get(this.activeSurfaceId)?.meshes.forEach((child) => {
+            if (frame || !child.geometry.attributes.uv) return;
+
+            const found = this.findTriangleByUV(child, uv);
+
+            if (!found) return;
+
+            const posAttr = child.geometry.attributes.position;
+            const uvAttr = child.geometry.attributes.uv;
+            const linearMatrix = new THREE.Matrix3().setFromMatrix4(child.matrixWorld);
+            const [p0, p1, p2] = found.triangle.map((i) => new THREE.Vector3().fromBufferAttribute(posAttr, i));
+            const [t0, t1, t2] = found.triangle.map((i) => new THREE.Vector2(uvAttr.getX(i), uvAttr.getY(i)));
+            const edge1 = p1.clone().sub(p0);
+            const edge2 = p2.clone().sub(p0);
+            const deltaUV1 = t1.clone().sub(t0);
+            const deltaUV2 = t2.clone().sub(t0);
+            const determinant = deltaUV1.x * deltaUV2.y - deltaUV2.x * deltaUV1.y;
+
+            if (determinant === 0) return;
+
+            /** World-space surface derivatives dP/du and dP/dv */
+            frame = {
+                tangentU: edge1.clone().multiplyScalar(deltaUV2.y).addScaledVector(edge2, -deltaUV1.y).divideScalar(determinant).applyMatrix3(linearMatrix),
+                tangentV: edge2.clone().multiplyScalar(deltaUV1.x).addScaledVector(edge1, -deltaUV2.x).divideScalar(determinant).applyMatrix3(linearMatrix),
+            };
+        });
+
+        if (!frame) return null;
+
+        const { tangentU, tangentV } = frame as { tangentU: THREE.Vector3; tangentV: THREE.Vector3 };
+        const normal = tangentU.clone().cross(tangentV).normalize();
+        const cameraRight = new THREE.Vector3(1, 0, 0).applyQuaternion(this.camera.quaternion);
+        const cameraUp = new THREE.Vector3(0, 1, 0).applyQuaternion(this.camera.quaternion);
+        const surfaceRight = cameraRight.addScaledVector(normal, -cameraRight.dot(normal)).normalize();
+        const surfaceDown = normal.clone().cross(surfaceRight).normalize();
+
+        /** SVG Y points down, so the decal's Y axis follows the camera's down direction */
+        if (surfaceDown.dot(cameraUp) > 0) surfaceDown.negate();
+
+        /** Solve [dP/du dP/dv] * (du, dv) = direction in the least-squares sense */
+        const uu = tangentU.dot(tangentU);
+        const uv2 = tangentU.dot(tangentV);
+        const vv = tangentV.dot(tangentV);
+        const gram = uu * vv - uv2 * uv2;
+
+        if (gram === 0 || surfaceRight.lengthSq() === 0) return null;
+
+        const toTexture = (direction: THREE.Vector3) => {
+            const du = tangentU.dot(direction);
+            const dv = tangentV.dot(direction);
+
+            return new THREE.Vector2(
+                ((vv * du - uv2 * dv) / gram) * this.SVG_WIDTH,
+                ((uu * dv - uv2 * du) / gram) * this.SVG_HEIGHT,
+            );
+        };
+
+        const axisX = toTexture(surfaceRight);
+        const axisY = toTexture(surfaceDown);
+        const area = Math.abs(axisX.cross(axisY));
+
+        if (area === 0) return null;
+
+        const norm = Math.sqrt(area);
+        const rotate = Math.atan2(axisX.y, axisX.x) * (180 / Math.PI);
+        const perpendicular = new THREE.Vector2(-axisX.y, axisX.x).normalize();
+        const projectedY = axisY.dot(perpendicular);
+
+        return {
+            rotate: (rotate + 360) % 360,
+            scaleX: axisX.length() / norm,
+            scaleY: Math.abs(projectedY) / norm,
+            mirrored: projectedY < 0,
+        };
+    }
     
 
     /**
@@ -788,25 +3898,63 @@ export class SVGDecals extends EventEmitter {
         return bbox;
     }
 
+    /**
+     * Returns all decal group elements of the SVG in paint order (bottom-most first).
+     *
+     * @returns An array of decal group elements, empty if the SVG element is not available.
+     */
+    private getDecalElements(): SVGGraphicsElement[] {
+        if (!this.svgElement) return [];
+
+        return Array.from(this.svgElement.querySelectorAll(`:scope > g[${this.ATTR_NAME}*="decal"]`))
+            .filter((decal): decal is SVGGraphicsElement => decal instanceof SVGGraphicsElement);
+    }
+
+    /**
+     * Returns the position of a decal in the paint order.
+     * @param id - The decal name.
+     * @returns The index of the decal, or -1 if it does not exist.
+     */
+    private getDecalIndex(id: string): number {
+        return this.getDecalElements().findIndex((decal) => decal.getAttribute(this.ATTR_NAME) === id);
+    }
+
+    /**
+     * Determines the decal type from the element found inside its content group.
+     *
+     * @param decal - The decal group element.
+     * @returns The decal type, or null if the content is not recognized.
+     */
+    private getDecalType(decal: Element): SVGDecalType | null {
+        const contentElement = decal.querySelector(`[${this.ATTR_NAME}="${this.ATTR_CONTENT}"]`);
+
+        if (contentElement?.querySelector(`[${this.ATTR_NAME}="${this.ATTR_TEXT}"]`)) return 'text';
+        if (contentElement?.querySelector(`[${this.ATTR_NAME}="${this.ATTR_IMAGE}"]`)) return 'image';
+        if (contentElement?.querySelector(`[${this.ATTR_NAME}="${this.ATTR_ICON}"]`)) return 'icon';
+        if (contentElement?.querySelector(`[${this.ATTR_NAME}="${this.ATTR_SHAPE}"]`)) return 'shape';
+
+        return null;
+    }
+
     /**
      * Retrieves the SVG graphical element corresponding to the specified UV coordinates.
      *
      * This method calculates the absolute position in the SVG's coordinate space by using the
-     * provided UV values and the dimensions of the SVG element. It then iterates through all SVG
-     * elements marked with an attribute containing "decal", and for each, it checks if the computed
-     * position (xPos, yPos) lies within the element's bounding box.
+     * provided UV values and the dimensions of the SVG element. It then iterates through all decals
+     * from the topmost to the bottom-most one, skipping hidden and locked decals, and for each, it checks
+     * if the computed position (xPos, yPos) lies within the element's bounding box.
      *
      * @param uv - A THREE.Vector2 representing the UV coordinates where the decal should be found.
-     * @returns The SVG element (of type SVGGraphicsElement) containing the decal if the position
+     * @returns The topmost SVG element (of type SVGGraphicsElement) containing the decal if the position
      *          falls within its bounding box; otherwise, returns null.
      */
     private getDecalElementByUV(uv: THREE.Vector2): Element | null {
         if (!this.svgElement) return null;
 
-        const decals = this.svgElement.querySelectorAll(`[${this.ATTR_NAME}*="decal"]`);
+        const decals = this.getDecalElements().reverse();
 
         for (const decal of decals) {
-            if (decal instanceof SVGGraphicsElement) {
+            if (decal.getAttribute(this.ATTR_VISIBLE) !== 'false' && decal.getAttribute(this.ATTR_LOCKED) !== 'true') {
                 const xPos = uv.x * this.SVG_WIDTH;
                 const yPos = uv.y * this.SVG_HEIGHT;
                 const bbox = decal.getBBox();
@@ -825,7 +3973,8 @@ export class SVGDecals extends EventEmitter {
      *
      * This method calculates the position within the SVG element based on the provided UV coordinates.
      * It first retrieves the active decal control element (if any) within the SVG, then iterates over the
-     * available control buttons contained in that element. For each button, it computes the bounding box,
+     * available control buttons contained in that element (or in the shared selection box when several decals are
+     * selected). For each button, it computes the bounding box,
      * taking into account any applied SVG transformations. The UV coordinates are scaled to the SVG's dimensions,
      * and if they fall within a button's transformed bounding box, that button is returned.
      *
@@ -835,7 +3984,9 @@ export class SVGDecals extends EventEmitter {
     private getControlElementByUV(uv: THREE.Vector2): Element | null {
         if (!this.svgElement) return null;
 
-        const activeDecalControlElement = this.svgElement.querySelector(`[${this.ATTR_NAME}*="decal"][${this.ATTR_ACTIVE}="true"] [${this.ATTR_NAME}="${this.ATTR_CONTROLS}"]`);
+        const activeDecalControlElement = this.isMultiSelection()
+            ? this.svgElement.querySelector(`:scope > [${this.ATTR_NAME}="${this.ATTR_SELECTION}"] [${this.ATTR_NAME}="${this.ATTR_CONTROLS}"]`)
+            : this.svgElement.querySelector(`[${this.ATTR_NAME}*="decal"][${this.ATTR_ACTIVE}="true"] [${this.ATTR_NAME}="${this.ATTR_CONTROLS}"]`);
         const buttons = activeDecalControlElement?.querySelectorAll(`[${this.ATTR_NAME}*="control-"]`);
 
         for (const button of buttons || []) {
@@ -870,8 +4021,125 @@ export class SVGDecals extends EventEmitter {
                 }
             }
         }
-
-        return null;
+
+        return null;
+    }
+
+    /**
+     * Returns the control type of a control button element.
+     *
+     * @param element - A control button, as returned by `getControlElementByUV`.
+     * @returns The control, or null if the element is not a control button.
+     */
+    private getControlType(element: Element | null): SVGDecalsControl | null {
+        switch (element?.getAttribute(this.ATTR_NAME)) {
+            case this.ATTR_CONTROL_SCALE: return 'scale';
+            case this.ATTR_CONTROL_ROTATE: return 'rotate';
+            case this.ATTR_CONTROL_DELETE: return 'delete';
+            case this.ATTR_CONTROL_DUPLICATE: return 'duplicate';
+            default: return null;
+        }
+    }
+
+    /**
+     * Returns the CSS cursor shown over a control.
+     * The rotate cursor is built from the rotate icon, as CSS has no rotate cursor.
+     *
+     * @param control - The control.
+     * @returns A CSS cursor value.
+     */
+    private getControlCursor(control: SVGDecalsControl): string {
+        if (control === 'rotate' && !this.rotateCursor) {
+            const icon = this.createControlButtonsGroup().querySelector(`[${this.ATTR_NAME}="${this.ATTR_CONTROL_ROTATE}"]`);
+            const svg = `<svg xmlns="${this.SVG_NS}" viewBox="0 0 24 24" width="24" height="24">${icon?.innerHTML || ''}</svg>`;
+
+            this.rotateCursor = `url("data:image/svg+xml,${encodeURIComponent(svg)}") 12 12, grab`;
+        }
+
+        switch (control) {
+            case 'scale': return 'nesw-resize';
+            case 'rotate': return this.rotateCursor;
+            case 'delete': return 'pointer';
+            case 'duplicate': return 'copy';
+        }
+    }
+
+    /**
+     * Updates the hovered decal once per frame with the latest pointer position.
+     *
+     * @param event - The pointermove event.
+     */
+    private scheduleHover(event: PointerEvent): void {
+        if (!this.hoverEvent) {
+            this.hoverFrame = requestAnimationFrame(() => {
+                const latestEvent = this.hoverEvent;
+
+                this.hoverEvent = null;
+
+                if (latestEvent) this.updateHover(latestEvent);
+            });
+        }
+
+        this.hoverEvent = event;
+    }
+
+    /**
+     * Finds the decal and the control under the pointer.
+     *
+     * Only decals of the active surface are hovered. Controls are looked up in the texture only,
+     * the handles of the HTML overlay have their own cursors.
+     *
+     * @param event - The pointer event.
+     */
+    private updateHover(event: PointerEvent): void {
+        if (!this.interactionEnabled) return;
+
+        const intersects = this.getMouseIntersections(event);
+        const onActiveSurface = intersects.length > 0 && this.surfaceByObject.get(intersects[0].object)?.id === this.activeSurfaceId;
+        const uv = onActiveSurface ? intersects[0].uv : undefined;
+        const decal = uv ? this.getDecalElementByUV(uv) : null;
+        const control = uv && !this.overlayControls ? this.getControlType(this.getControlElementByUV(uv)) : null;
+
+        this.setHover(decal?.getAttribute(this.ATTR_NAME) || null, control);
+    }
+
+    /**
+     * Changes the hovered decal and control.
+     *
+     * When they change, a 'hoverend' event is emitted for the previous ones and a 'hover' event for the new ones,
+     * the canvas cursor is updated and, with `hoverOutline` enabled, the hovered decal is outlined in the texture.
+     *
+     * @param id - The id of the hovered decal, or null.
+     * @param control - The hovered control, or null.
+     */
+    private setHover(id: string | null, control: SVGDecalsControl | null): void {
+        if (id === this.hoveredDecal && control === this.hoveredControl) return;
+
+        const previousDecal = this.hoveredDecal;
+        const previousControl = this.hoveredControl;
+
+        this.hoveredDecal = id;
+        this.hoveredControl = control;
+        this.renderer.domElement.style.cursor = control ? this.getControlCursor(control) : id ? 'move' : '';
+
+        if (this.hoverOutline && previousDecal !== id) {
+            this.getDecalElements().forEach((decal) => {
+                if (decal.getAttribute(this.ATTR_NAME) === id) {
+                    decal.setAttribute(this.ATTR_HOVER, 'true');
+                } else {
+                    decal.removeAttribute(this.ATTR_HOVER);
+                }
+            });
+
+            this.decalSVGTexture?.updateSVGTexture();
+        }
+
+        if (previousDecal || previousControl) {
+            this.emit('hoverend', [{ id: previousDecal, control: previousControl }]);
+        }
+        if (id || control) {
+            this.emit('hover', [{ id, control }]);
+        }
     }
 
     /**
@@ -896,6 +4164,23 @@ export class SVGDecals extends EventEmitter {
         const activeDecalContainerElement = this.svgElement.querySelector(`[${this.ATTR_NAME}*="decal"][${this.ATTR_ACTIVE}="true"] [${this.ATTR_NAME}="${this.ATTR_CONTAINER}"]`);
         const activeDecalContentElement = this.svgElement.querySelector(`[${this.ATTR_NAME}*="decal"][${this.ATTR_ACTIVE}="true"] [${this.ATTR_NAME}="${this.ATTR_CONTENT}"]`);
 
+        /** The combined bounding box of a multi-selection is dragged as a whole */
+        if (this.isMultiSelection()) {
+            const selectionBox = this.svgElement.querySelector(`[${this.ATTR_NAME}="${this.ATTR_SELECTION_BOX}"]`);
+
+            if (selectionBox instanceof SVGGraphicsElement) {
+                const xPos = uv.x * this.SVG_WIDTH;
+                const yPos = uv.y * this.SVG_HEIGHT;
+                const bbox = selectionBox.getBBox();
+
+                if (xPos >= bbox.x && xPos <= bbox.x + bbox.width && yPos >= bbox.y && yPos <= bbox.y + bbox.height) {
+                    return activeDecalContentElement;
+                }
+            }
+
+            return null;
+        }
+
         if (activeDecalElement instanceof SVGGraphicsElement && activeDecalContainerElement instanceof SVGGraphicsElement) {
             const xPos = uv.x * this.SVG_WIDTH;
             const yPos = uv.y * this.SVG_HEIGHT;
@@ -921,12 +4206,17 @@ export class SVGDecals extends EventEmitter {
      * parameters, activates the decal, and emits a 'click' event with relevant data. Otherwise, it ensures that all 
      * decals are deactivated.
      *
+     * With `additive` set (shift-click) the decal is toggled in the current selection instead of replacing it.
+     * Clicking a decal of a multi-selection, or the area of the selection box, keeps the whole selection so it can
+     * be transformed around the center of its combined bounding box.
+     *
      * @param intersects - An array of THREE.Intersection objects resulting from a raycast, where the first intersection
      * indicates the potential decal target.
+     * @param additive - Whether to add the decal to (or remove it from) the current selection.
      *
      * @returns A boolean value indicating whether a suitable decal was successfully found and selected.
      */
-    private selectDecalInIntersection(intersects: THREE.Intersection[]): boolean {
+    private selectDecalInIntersection(intersects: THREE.Intersection[], additive: boolean = false): boolean {
         let decalFound = false;
 
         if (intersects.length > 0) {
@@ -938,38 +4228,22 @@ export class SVGDecals extends EventEmitter {
                 const decalContent = svgDecalElement?.querySelector(`[${this.ATTR_NAME}="${this.ATTR_CONTENT}"]`);
 
                 if (svgDecalElement instanceof SVGGraphicsElement && decalContent instanceof SVGGraphicsElement) {
-                    /** Calculate the center of the decal in UV coordinates */
-                    const bbox = this.getElementBBox(decalContent, svgDecalElement, false);
-                    if (!bbox) return false;
-                    const svgWidth = parseFloat(this.svgElement!.getAttribute('width') || '100');
-                    const svgHeight = parseFloat(this.svgElement!.getAttribute('height') || '100');
-                    const centerSVGX = (bbox.x + bbox.width * 0.5) / svgWidth;
-                    const centerSVGY = (bbox.y + bbox.height * 0.5) / svgHeight;
-                    const decalUVCenter = new THREE.Vector2(centerSVGX, centerSVGY);
-                    const meshPointByDecalCenter = this.getMeshPointByUV(intersected.object, decalUVCenter);
-                    const screenPointForDecalCenter = this.reverseRaycast(meshPointByDecalCenter);
-                    const deltaX = screenPointForDecalCenter.x - this.startScalePos.x;
-                    const deltaY = screenPointForDecalCenter.y - this.startScalePos.y;
-                    const angleRadians = Math.atan2(uv.y - centerSVGY, uv.x - centerSVGX);
-
-                    console.log('meshPointByDecalCenter', meshPointByDecalCenter);
-
-                    /** Save the initial values */
-                    this.startDragCoordinates = new THREE.Vector2(
-                        uv.x - ((bbox.x) / svgWidth),
-                        uv.y - ((bbox.y) / svgHeight)
-                    );
-                    this.startScaleCenter = screenPointForDecalCenter;
-                    this.savedRotateAngle = parseFloat(svgDecalElement.getAttribute(this.ATTR_ROTATE) || '0');
-                    this.savedScale = parseFloat(svgDecalElement.getAttribute(this.ATTR_SCALE) || '1');
-                    this.distanceFromCenterOnStart = Math.sqrt(deltaX ** 2 + deltaY ** 2);
-                    this.startRotateAngle = angleRadians * (180 / Math.PI);
-
-                    /** Highlight the selected decal */
-                    this.activateDecal(svgDecalElement);
-
-                    decalFound = true;
-                } else {
+                    const isSelected = svgDecalElement.getAttribute(this.ATTR_ACTIVE) === 'true';
+
+                    if (additive && isSelected && this.isMultiSelection()) {
+                        /** Remove the decal from the selection */
+                        this.deactivateDecal(svgDecalElement);
+                    } else {
+                        /** Highlight the selected decal */
+                        if (additive || !isSelected || !this.isMultiSelection()) {
+                            this.activateDecal(svgDecalElement, additive);
+                        }
+
+                        decalFound = this.saveGestureStart(intersected.object, uv, svgDecalElement);
+                    }
+                } else if (this.isMultiSelection() && this.isPointInSelection(uv)) {
+                    decalFound = this.saveGestureStart(intersected.object, uv, null);
+                } else if (!additive) {
                     this.deactivateAllDecals();
                 }
 
@@ -982,6 +4256,84 @@ export class SVGDecals extends EventEmitter {
         return decalFound
     }
 
+    /**
+     * Records the initial values of a drag, rotate or scale gesture.
+     *
+     * For a single selected decal the center of its content is used as the pivot. For a multi-selection
+     * the center of the combined bounding box is used, and the position, rotation and scale of every
+     * selected decal are stored so the gesture can be applied to the whole group.
+     *
+     * @param object - The intersected mesh, used to project the pivot to screen space.
+     * @param uv - The UV coordinate where the gesture started.
+     * @param decal - The clicked decal, or null when the selection box itself was clicked.
+     * @returns True if the initial values were recorded.
+     */
+    private saveGestureStart(object: THREE.Object3D, uv: THREE.Vector2, decal: SVGGraphicsElement | null): boolean {
+        const selectedDecals = this.getSelectedDecals();
+        const multiSelection = selectedDecals.length > 1;
+        const decalContent = decal?.querySelector(`[${this.ATTR_NAME}="${this.ATTR_CONTENT}"]`);
+        let bbox: DOMRect | null = null;
+
+        if (multiSelection) {
+            bbox = this.getSelectionBBox(selectedDecals);
+        } else if (decal && decalContent instanceof SVGGraphicsElement) {
+            bbox = this.getElementBBox(decalContent, decal, false);
+        }
+
+        if (!bbox) return false;
+
+        /** Calculate the center of the decal in UV coordinates */
+        const svgWidth = parseFloat(this.svgElement!.getAttribute('width') || '100');
+        const svgHeight = parseFloat(this.svgElement!.getAttribute('height') || '100');
+        const centerSVGX = (bbox.x + bbox.width * 0.5) / svgWidth;
+        const centerSVGY = (bbox.y + bbox.height * 0.5) / svgHeight;
+        const decalUVCenter = new THREE.Vector2(centerSVGX, centerSVGY);
+        const meshPointByDecalCenter = this.getMeshPointByUV(object, decalUVCenter);
+        const screenPointForDecalCenter = this.reverseRaycast(meshPointByDecalCenter);
+        const deltaX = screenPointForDecalCenter.x - this.startScalePos.x;
+        const deltaY = screenPointForDecalCenter.y - this.startScalePos.y;
+        const angleRadians = Math.atan2(uv.y - centerSVGY, uv.x - centerSVGX);
+
+        /** Save the initial values */
+        this.startDragUV = uv.clone();
+        this.startDragCoordinates = new THREE.Vector2(
+            uv.x - ((bbox.x) / svgWidth),
+            uv.y - ((bbox.y) / svgHeight)
+        );
+        this.startScaleCenter = screenPointForDecalCenter;
+        this.savedRotateAngle = multiSelection ? 0 : parseFloat(decal?.getAttribute(this.ATTR_ROTATE) || '0');
+        this.savedScale = multiSelection ? 1 : parseFloat(decal?.getAttribute(this.ATTR_SCALE) || '1');
+        this.distanceFromCenterOnStart = Math.sqrt(deltaX ** 2 + deltaY ** 2);
+        this.startRotateAngle = angleRadians * (180 / Math.PI);
+        this.selectionPivot = { x: centerSVGX * this.SVG_WIDTH, y: centerSVGY * this.SVG_HEIGHT };
+        this.selectionStart = multiSelection ? this.snapshotSelection(selectedDecals) : [];
+
+        return true;
+    }
+
+    /**
+     * Records the position, rotation, scale and content center of the unlocked decals of a selection.
+     *
+     * @param decals - The selected decals.
+     * @returns The recorded values, used by `transformSelection`.
+     */
+    private snapshotSelection(decals: SVGGraphicsElement[]): typeof this.selectionStart {
+        return decals.filter((selectedDecal) => !this.isDecalLocked(selectedDecal)).map((selectedDecal) => {
+            const content = selectedDecal.querySelector(`[${this.ATTR_NAME}="${this.ATTR_CONTENT}"]`);
+            const contentBBox = content instanceof SVGGraphicsElement ? this.getElementBBox(content, selectedDecal, false) : null;
+
+            return {
+                decal: selectedDecal,
+                x: parseFloat(selectedDecal.getAttribute(this.ATTR_POSX) || '0'),
+                y: parseFloat(selectedDecal.getAttribute(this.ATTR_POSY) || '0'),
+                rotate: parseFloat(selectedDecal.getAttribute(this.ATTR_ROTATE) || '0'),
+                scale: parseFloat(selectedDecal.getAttribute(this.ATTR_SCALE) || '1'),
+                centerX: contentBBox ? contentBBox.x + contentBBox.width * 0.5 : 0,
+                centerY: contentBBox ? contentBBox.y + contentBBox.height * 0.5 : 0,
+            };
+        });
+    }
+
     /**
      * Retrieves a control element based on the UV coordinate from the first valid intersection.
      *
@@ -1026,7 +4378,7 @@ export class SVGDecals extends EventEmitter {
      *
      * This method checks for an active decal element marked as "decal" and active,
      * computes the intersection based on the mouse event's position, and updates the decal's
-     * position accordingly. It serializes the updated SVG content and returns it as a string.
+     * position accordingly. With several decals selected, the whole selection is moved. It serializes the updated SVG content and returns it as a string.
      *
      * @param event - The mouse event triggering the decal drag.
      * @returns The updated SVG content as a serialized string, or null if there is no active decal or SVG element.
@@ -1034,34 +4386,65 @@ export class SVGDecals extends EventEmitter {
     private handleDragDecal(event: MouseEvent): string | null {
         const activeDecal = this.svgElement?.querySelector(`g[${this.ATTR_NAME}*="decal"][${this.ATTR_ACTIVE}="true"]`) as SVGGraphicsElement | null;
 
-        console.timeLog('dragging', 'activeDecal');
         if (!this.svgElement || !activeDecal) return null;
         
-        const intersects = this.getMouseIntersections(event);
-        console.timeLog('dragging', 'getMouseIntersections');
+        const intersects = this.getMouseIntersections(event, true);
 
         if (intersects.length > 0) {
             const intersected = intersects[0];
             const uv = intersected.uv?.clone();
-            console.timeLog('dragging', 'get uv');
 
-            if (uv) {
+            if (uv && this.isMultiSelection()) {
+                const startUV = this.startDragUV || uv;
+                let dx = (uv.x - startUV.x) * this.SVG_WIDTH;
+                let dy = (uv.y - startUV.y) * this.SVG_HEIGHT;
+
+                if (this.snapping.enabled && this.selectionStart.length) {
+                    const selectedDecals = this.getSelectedDecals();
+                    const bbox = this.getSelectionBBox(selectedDecals);
+                    const first = this.selectionStart[0];
+
+                    if (bbox) {
+                        /** Move the current bounding box back to the gesture start, then to the unsnapped position */
+                        bbox.x += dx - (parseFloat(first.decal.getAttribute(this.ATTR_POSX) || '0') - first.x);
+                        bbox.y += dy - (parseFloat(first.decal.getAttribute(this.ATTR_POSY) || '0') - first.y);
+
+                        const snap = this.snapBBox(bbox, selectedDecals);
+
+                        dx += snap.x;
+                        dy += snap.y;
+                    }
+                }
+
+                this.transformSelection(dx, dy, 0, 1);
+            } else if (uv && !this.isDecalLocked(activeDecal)) {
                 if (this.startDragCoordinates) {
                     uv.x -= this.startDragCoordinates.x;
                     uv.y -= this.startDragCoordinates.y;
                 }
 
-                this.updateDecal(activeDecal.getAttribute(this.ATTR_NAME) || '', {
-                    x: uv.x * this.SVG_WIDTH,
-                    y: uv.y * this.SVG_HEIGHT,
-                });
+                let x = uv.x * this.SVG_WIDTH;
+                let y = uv.y * this.SVG_HEIGHT;
+
+                if (this.snapping.enabled) {
+                    const bbox = this.getDecalBBox(activeDecal);
+
+                    if (bbox) {
+                        bbox.x += x - parseFloat(activeDecal.getAttribute(this.ATTR_POSX) || '0');
+                        bbox.y += y - parseFloat(activeDecal.getAttribute(this.ATTR_POSY) || '0');
+
+                        const snap = this.snapBBox(bbox, [activeDecal]);
+
+                        x += snap.x;
+                        y += snap.y;
+                    }
+                }
 
-                console.timeLog('dragging', 'update svg');
+                this.updateDecal(activeDecal.getAttribute(this.ATTR_NAME) || '', { x, y });
             }
         }
 
         const updatedSVGContent = this.XMLSerializer.serializeToString(this.svgElement);
-        console.timeLog('dragging', 'serializeToString svg');
 
         return updatedSVGContent;
     }
@@ -1074,6 +4457,7 @@ export class SVGDecals extends EventEmitter {
      * It then calculates the new rotation angle by determining the angular offset between the
      * decal's center and the mouse pointer's UV coordinates, applying both a starting offset and
      * any previously saved rotation. The decal is then updated with the new rotation value.
+     * With several decals selected, the whole selection is rotated around its shared pivot.
      *
      * @param event - The MouseEvent that triggers the rotation handling.
      * @returns The serialized SVG content as a string with the updated decal rotation,
@@ -1086,25 +4470,34 @@ export class SVGDecals extends EventEmitter {
         if (!this.svgElement || !activeDecal || !(contentElement instanceof SVGGraphicsElement)) return null;
         
         const contentBBox = this.getElementBBox(contentElement, activeDecal, false);
-        const intersects = this.getMouseIntersections(event);
+        const intersects = this.getMouseIntersections(event, true);
 
         if (contentBBox && intersects.length > 0) {
             const intersected = intersects[0];
             const uv = intersected.uv?.clone();
             
             if (!uv) return null;
-    
-            const centerX = (contentBBox.x + (contentBBox.width * 0.5)) / this.SVG_WIDTH;
-            const centerY = (contentBBox.y + (contentBBox.height * 0.5)) / this.SVG_HEIGHT;
+
+            const multiSelection = this.isMultiSelection();
+            const centerX = multiSelection
+                ? this.selectionPivot.x / this.SVG_WIDTH
+                : (contentBBox.x + (contentBBox.width * 0.5)) / this.SVG_WIDTH;
+            const centerY = multiSelection
+                ? this.selectionPivot.y / this.SVG_HEIGHT
+                : (contentBBox.y + (contentBBox.height * 0.5)) / this.SVG_HEIGHT;
             const angleRadians = Math.atan2(uv.y - centerY, uv.x - centerX);
             let deg = ((angleRadians * (180 / Math.PI) + 360)) % 360;
     
             deg -= this.startRotateAngle; // offset
             deg += this.savedRotateAngle; // previous value
     
-            this.updateDecal(activeDecal.getAttribute(this.ATTR_NAME) || '', {
-                rotate: deg % 360
-            });
+            if (multiSelection) {
+                this.transformSelection(0, 0, deg % 360, 1);
+            } else if (!this.isDecalLocked(activeDecal)) {
+                this.updateDecal(activeDecal.getAttribute(this.ATTR_NAME) || '', {
+                    rotate: deg % 360
+                });
+            }
         }
 
         const updatedSVGContent = this.XMLSerializer.serializeToString(this.svgElement);
@@ -1119,6 +4512,7 @@ export class SVGDecals extends EventEmitter {
      * then adjusts the scale of the active decal proportionally. It updates the decal's attributes with the new scale,
      * serializes the updated SVG element to a string, and returns that string. If the SVG element, active decal, or 
      * required content element is not found, the method returns null.
+     * With several decals selected, the whole selection is scaled around its shared pivot.
      *
      * @param event - The mouse event that provides the current x and y coordinates for scaling.
      * @returns The updated SVG content as a string if scaling was applied; otherwise, null.
@@ -1134,9 +4528,13 @@ export class SVGDecals extends EventEmitter {
         const distance = Math.sqrt(deltaX * deltaX + deltaY * deltaY);
         const scale = this.savedScale * distance / this.distanceFromCenterOnStart;
 
-        this.updateDecal(activeDecal.getAttribute(this.ATTR_NAME) || '', {
-            scale: scale
-        });
+        if (this.isMultiSelection()) {
+            this.transformSelection(0, 0, 0, scale);
+        } else if (!this.isDecalLocked(activeDecal)) {
+            this.updateDecal(activeDecal.getAttribute(this.ATTR_NAME) || '', {
+                scale: scale
+            });
+        }
 
         const updatedSVGContent = this.XMLSerializer.serializeToString(this.svgElement);
 
@@ -1148,26 +4546,199 @@ export class SVGDecals extends EventEmitter {
      * while deactivating all other decals.
      *
      * This method sets the active attribute of the given decal element to "true" and adds the
-     * "dashed-border" class to its container element. It then iterates through all sibling decals
-     * (identified by an attribute containing "decal") and deactivates them by setting their active
-     * attribute to "false" and removing the border styling from their container elements.
+     * "dashed-border" class to its container element. Unless `additive` is set, it then iterates through
+     * all sibling decals (identified by an attribute containing "decal") and deactivates them by setting
+     * their active attribute to "false" and removing the border styling from their container elements.
      *
      * @param decal - The SVGGraphicsElement representing the decal to be activated.
+     * @param additive - Whether to keep the other selected decals selected.
      */
-    private activateDecal(decal: SVGGraphicsElement): void {
+    private activateDecal(decal: SVGGraphicsElement, additive: boolean = false): void {
         const containerElement = decal.querySelector(`[${this.ATTR_NAME}="${this.ATTR_CONTAINER}"]`);
         
         decal.setAttribute(this.ATTR_ACTIVE, 'true');
         containerElement?.setAttribute('class', 'dashed-border');
 
-        this.svgElement?.querySelectorAll(`[${this.ATTR_NAME}*="decal"]`).forEach((el) => {
-            if (el !== decal) {
-                const inactiveContainerElement = el.querySelector(`[${this.ATTR_NAME}="${this.ATTR_CONTAINER}"]`);
+        if (!additive) {
+            this.svgElement?.querySelectorAll(`[${this.ATTR_NAME}*="decal"]`).forEach((el) => {
+                if (el !== decal) {
+                    const inactiveContainerElement = el.querySelector(`[${this.ATTR_NAME}="${this.ATTR_CONTAINER}"]`);
 
-                el.setAttribute(this.ATTR_ACTIVE, 'false');
-                inactiveContainerElement?.removeAttribute('class');
-            }
+                    el.setAttribute(this.ATTR_ACTIVE, 'false');
+                    inactiveContainerElement?.removeAttribute('class');
+                }
+            });
+        }
+
+        this.updateSelectionBox();
+        this.emitSelectionChanges();
+    }
+
+    /**
+     * Removes a single decal from the selection.
+     *
+     * @param decal - The SVGGraphicsElement representing the decal to be deactivated.
+     */
+    private deactivateDecal(decal: SVGGraphicsElement): void {
+        const containerElement = decal.querySelector(`[${this.ATTR_NAME}="${this.ATTR_CONTAINER}"]`);
+
+        decal.setAttribute(this.ATTR_ACTIVE, 'false');
+        containerElement?.removeAttribute('class');
+
+        this.updateSelectionBox();
+        this.emitSelectionChanges();
+    }
+
+    /**
+     * Returns all selected decal group elements in paint order.
+     * @returns An array of selected decal group elements.
+     */
+    private getSelectedDecals(): SVGGraphicsElement[] {
+        return this.getDecalElements().filter((decal) => decal.getAttribute(this.ATTR_ACTIVE) === 'true');
+    }
+
+    /**
+     * Checks whether a decal is locked against pointer selection and gestures.
+     * @param decal - The decal group element.
+     * @returns True if the decal is locked.
+     */
+    private isDecalLocked(decal: Element): boolean {
+        return decal.getAttribute(this.ATTR_LOCKED) === 'true';
+    }
+
+    /**
+     * Checks whether more than one decal is selected.
+     * @returns True if several decals are selected.
+     */
+    private isMultiSelection(): boolean {
+        return this.svgElement?.getAttribute(this.ATTR_MULTISELECT) === 'true';
+    }
+
+    /**
+     * Computes the combined bounding box of the container groups of the given decals.
+     *
+     * @param decals - The decals to include.
+     * @returns The combined bounding box in SVG units, or null if none of the decals has a container.
+     */
+    private getSelectionBBox(decals: SVGGraphicsElement[]): DOMRect | null {
+        let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+
+        decals.forEach((decal) => {
+            const containerElement = decal.querySelector(`[${this.ATTR_NAME}="${this.ATTR_CONTAINER}"]`);
+            const bbox = containerElement instanceof SVGGraphicsElement ? this.getElementBBox(containerElement, decal, false) : null;
+
+            if (!bbox) return;
+
+            minX = Math.min(minX, bbox.x);
+            minY = Math.min(minY, bbox.y);
+            maxX = Math.max(maxX, bbox.x + bbox.width);
+            maxY = Math.max(maxY, bbox.y + bbox.height);
+        });
+
+        if (minX === Infinity) return null;
+
+        return new DOMRect(minX, minY, maxX - minX, maxY - minY);
+    }
+
+    /**
+     * Checks whether a UV coordinate lies within the selection box or its control buttons.
+     *
+     * @param uv - A THREE.Vector2 representing the UV coordinates with components in the range [0, 1].
+     * @returns True if the coordinate is inside the selection group.
+     */
+    private isPointInSelection(uv: THREE.Vector2): boolean {
+        const selectionGroup = this.svgElement?.querySelector(`:scope > [${this.ATTR_NAME}="${this.ATTR_SELECTION}"]`);
+
+        if (!(selectionGroup instanceof SVGGraphicsElement)) return false;
+
+        const xPos = uv.x * this.SVG_WIDTH;
+        const yPos = uv.y * this.SVG_HEIGHT;
+        const bbox = selectionGroup.getBBox();
+
+        return xPos >= bbox.x && xPos <= bbox.x + bbox.width && yPos >= bbox.y && yPos <= bbox.y + bbox.height;
+    }
+
+    /**
+     * Creates, updates or removes the shared selection box.
+     *
+     * When several decals are selected, a `selection` group with a dashed rectangle around the combined
+     * bounding box and a single control group is kept on top of all decals, and the individual decal
+     * controls are hidden through the `multiselect` attribute of the SVG element.
+     */
+    private updateSelectionBox(): void {
+        if (!this.svgElement) return;
+
+        const selectedDecals = this.getSelectedDecals();
+        let selectionGroup = this.svgElement.querySelector(`:scope > [${this.ATTR_NAME}="${this.ATTR_SELECTION}"]`);
+
+        if (selectedDecals.length < 2) {
+            this.svgElement.removeAttribute(this.ATTR_MULTISELECT);
+            selectionGroup?.remove();
+            return;
+        }
+
+        if (!selectionGroup) {
+            const selectionBox = document.createElementNS(this.SVG_NS, 'rect');
+
+            selectionGroup = document.createElementNS(this.SVG_NS, 'g');
+            selectionGroup.setAttribute(this.ATTR_NAME, this.ATTR_SELECTION);
+            selectionBox.setAttribute(this.ATTR_NAME, this.ATTR_SELECTION_BOX);
+            selectionBox.setAttribute('fill', 'none');
+            selectionBox.setAttribute('stroke', 'black');
+            selectionBox.setAttribute('stroke-dasharray', '4 4');
+            selectionGroup.appendChild(selectionBox);
+            selectionGroup.appendChild(this.createControlButtonsGroup());
+        }
+
+        /** Keep the selection box above all decals */
+        this.svgElement.appendChild(selectionGroup);
+        this.svgElement.setAttribute(this.ATTR_MULTISELECT, 'true');
+
+        const bbox = this.getSelectionBBox(selectedDecals);
+        const selectionBox = selectionGroup.querySelector(`[${this.ATTR_NAME}="${this.ATTR_SELECTION_BOX}"]`);
+        const controlGroup = selectionGroup.querySelector(`[${this.ATTR_NAME}="${this.ATTR_CONTROLS}"]`);
+
+        if (!bbox) return;
+
+        selectionBox?.setAttribute('x', bbox.x.toString());
+        selectionBox?.setAttribute('y', bbox.y.toString());
+        selectionBox?.setAttribute('width', bbox.width.toString());
+        selectionBox?.setAttribute('height', bbox.height.toString());
+
+        if (controlGroup) {
+            this.placeControls(controlGroup, bbox);
+        }
+    }
+
+    /**
+     * Applies a translation, rotation and scale to every selected decal, relative to the values
+     * recorded when the gesture started and around the shared selection pivot.
+     *
+     * @param dx - Translation along X in SVG units.
+     * @param dy - Translation along Y in SVG units.
+     * @param angle - Rotation in degrees.
+     * @param factor - Scale factor.
+     */
+    private transformSelection(dx: number, dy: number, angle: number, factor: number): void {
+        const radians = angle * (Math.PI / 180);
+        const cos = Math.cos(radians);
+        const sin = Math.sin(radians);
+
+        this.selectionStart.forEach((start) => {
+            const offsetX = start.centerX - this.selectionPivot.x;
+            const offsetY = start.centerY - this.selectionPivot.y;
+            const centerX = this.selectionPivot.x + (offsetX * cos - offsetY * sin) * factor + dx;
+            const centerY = this.selectionPivot.y + (offsetX * sin + offsetY * cos) * factor + dy;
+
+            this.updateDecal(start.decal.getAttribute(this.ATTR_NAME) || '', {
+                x: start.x + centerX - start.centerX,
+                y: start.y + centerY - start.centerY,
+                rotate: (start.rotate + angle) % 360,
+                scale: start.scale * factor,
+            });
         });
+
+        this.updateSelectionBox();
     }
 
     /**
@@ -1194,6 +4765,9 @@ export class SVGDecals extends EventEmitter {
             el.setAttribute(this.ATTR_ACTIVE, 'false');
             inactiveContainerElement?.removeAttribute('class');
         });
+
+        this.updateSelectionBox();
+        this.emitSelectionChanges();
     }
 
     /**
@@ -1255,6 +4829,11 @@ export class SVGDecals extends EventEmitter {
             .filter((inters) => inters.object.type === "Mesh");
 
         const appropriateIntersections = intersects.filter((mesh) => {
+            /** With several decal surfaces, only the meshes of the active one can receive the decal */
+            if (this.surfaces.size > 1 && this.surfaceByObject.get(mesh.object)?.id !== this.activeSurfaceId) {
+                return false;
+            }
+
             let currentObject: THREE.Object3D<THREE.Object3DEventMap> | null =
                 mesh.object;
 
@@ -1278,16 +4857,17 @@ export class SVGDecals extends EventEmitter {
 
     /**
      * Creates an SVG group element that contains control buttons for rotating, scaling,
-     * and deleting.
+     * duplicating and deleting.
      *
      * This function builds and configures an SVG <g> element that serves as a container
-     * for three control icons:
+     * for four control icons:
      * - A rotate icon: a <path> element with defined stroke properties and a transformation.
      * - A scale icon: a <g> element with its innerHTML set to SVG paths defining the scale icon.
      * - A delete icon: a <path> element with fill properties to represent a delete action.
+     * - A duplicate icon: a <path> element with fill properties to represent a copy action.
      *
      * Each icon in the group is assigned a custom attribute (identified by this.ATTR_NAME)
-     * corresponding to its control function (rotate, scale, or delete), allowing for easy
+     * corresponding to its control function (rotate, scale, duplicate or delete), allowing for easy
      * identification and handling in event listeners or other logic.
      *
      * @returns The SVGGraphicsElement representing the group of control buttons.
@@ -1297,6 +4877,7 @@ export class SVGDecals extends EventEmitter {
         const rotateIcon = document.createElementNS(this.SVG_NS, 'g');
         const scaleIcon = document.createElementNS(this.SVG_NS, 'g');
         const deleteIcon = document.createElementNS(this.SVG_NS, 'path');
+        const duplicateIcon = document.createElementNS(this.SVG_NS, 'path');
 
         rotateIcon.setAttribute('fill', 'none');
         rotateIcon.innerHTML = `<path fill="white" stroke="black" d="M12 6.05c-3.869 0-7 3.126-7 6.975C5 16.875 8.131 20 12 20s7-3.126 7-6.975a6.9 6.9 0 0 0-.673-2.987a1 1 0 0 1 1.806-.86A8.9 8.9 0 0 1 21 13.024C21 17.985 16.968 22 12 22s-9-4.015-9-8.975s4.032-8.974 9-8.974c1.24 0 2.425.25 3.502.705l-.777 1.843A7 7 0 0 0 12 6.05"/>
@@ -1316,7 +4897,13 @@ export class SVGDecals extends EventEmitter {
 
         controlsGroup.appendChild(rotateIcon);
         controlsGroup.appendChild(scaleIcon);
+        duplicateIcon.setAttribute(this.ATTR_NAME, this.ATTR_CONTROL_DUPLICATE);
+        duplicateIcon.setAttribute('fill', 'white');
+        duplicateIcon.setAttribute('stroke', 'black');
+        duplicateIcon.setAttribute('d', 'M9 18q-.825 0-1.412-.587T7 16V4q0-.825.588-1.412T9 2h9q.825 0 1.413.588T20 4v12q0 .825-.587 1.413T18 18zm0-2h9V4H9zm-4 6q-.825 0-1.412-.587T3 20V6h2v14h11v2z');
+
         controlsGroup.appendChild(deleteIcon);
+        controlsGroup.appendChild(duplicateIcon);
         controlsGroup.setAttribute(this.ATTR_NAME, this.ATTR_CONTROLS);
 
         return controlsGroup;
@@ -1392,10 +4979,14 @@ export class SVGDecals extends EventEmitter {
             textElement.setAttribute('font-size', size.toString());
             textElement.setAttribute('text-anchor', 'start');
             textElement.setAttribute('dominant-baseline', 'text-before-edge');
-            textElement.setAttribute('fill', '#7d7d7d');
-            textElement.setAttribute('font-family', 'sans-serif');
+            textElement.setAttribute('fill', this.defaultFill);
+            textElement.setAttribute('font-family', this.fontFamily);
+            textElement.setAttribute('stroke', 'none');
+            textElement.setAttribute('stroke-width', '0');
+            textElement.setAttribute('paint-order', 'stroke');
+            textElement.setAttribute('stroke-linejoin', 'round');
             textElement.setAttribute(this.ATTR_NAME, this.ATTR_TEXT);
-            textElement.textContent = text;
+            this.textLayout.setContent(textElement, text);
 
             // Append both to the group
             contentGroup.appendChild(textElement);
@@ -1406,6 +4997,24 @@ export class SVGDecals extends EventEmitter {
         return decalGroup;
     }
 
+    /**
+     * Lays out the paint of a decal at its current position and size.
+     *
+     * Text is drawn in SVG coordinates, so its patterns start at the decal position. Icons and
+     * shapes are already translated there, so their patterns start at their origin. The bounding
+     * box of a horizontal or vertical line is empty, so gradients of line shapes span the line
+     * in user space instead.
+     *
+     * @param decal - The decal group.
+     */
+    private layoutPaint(decal: Element): void {
+        const shapeElement = decal.querySelector(`[${this.ATTR_NAME}="${this.ATTR_SHAPE}"]`);
+        const shape = shapeElement ? this.shapes.get(shapeElement) : null;
+        const origin = this.getDecalType(decal) === 'text' ? this.getDecalPosition(decal) : { x: 0, y: 0 };
+
+        this.paints.layout(decal, origin, shape?.type === 'line' ? shape : null);
+    }
+
     /**
      * Creates an image decal element within the SVG using provided UV coordinates, decal name, image source, and size.
      *
@@ -1518,6 +5127,66 @@ export class SVGDecals extends EventEmitter {
         return decalGroup;
     }
 
+    /**
+     * Creates a shape decal at the given UV coordinates.
+     *
+     * The shape parameters are stored as attributes of a `g` element translated to the decal position,
+     * and its primitives are drawn relative to that position by `DecalShapes.render`.
+     *
+     * @param uv - The UV coordinates used to calculate the shape's position on the SVG canvas.
+     * @param decalName - A unique identifier used for creating and referencing the decal group.
+     * @param shape - The shape parameters, missing ones fall back to defaults.
+     * @param size - The default width and height of the shape.
+     * @returns The decal group element with the shape, or null if the SVG element is not available.
+     */
+    private createShapeDecal(uv: THREE.Vector2, decalName: string, shape: Partial<SVGDecalShape>, size: number): SVGGraphicsElement | null {
+        if (!this.svgElement) {
+            console.warn('SVG element is not available.');
+            return null;
+        }
+
+        const decalGroup = this.createDecalMainParentElement(decalName);
+        const contentGroup = decalGroup?.querySelector(`[${this.ATTR_NAME}="${this.ATTR_CONTENT}"]`);
+        const shapeElement = document.createElementNS(this.SVG_NS, 'g');
+
+        // Position
+        const x = uv.x * this.SVG_WIDTH;
+        const y = uv.y * this.SVG_HEIGHT;
+
+        if (decalGroup && contentGroup) {
+            const isLine = shape.type === 'line';
+
+            shapeElement.setAttribute('x', x.toString());
+            shapeElement.setAttribute('y', y.toString());
+            shapeElement.setAttribute(this.ATTR_NAME, this.ATTR_SHAPE);
+            shapeElement.setAttribute('transform', `translate(${x}, ${y})`);
+            shapeElement.setAttribute('fill', this.defaultFill);
+            shapeElement.setAttribute('stroke-linejoin', 'round');
+
+            /** Lines are thin and horizontal unless told otherwise */
+            this.shapes.apply(shapeElement, {
+                type: 'rectangle',
+                width: size,
+                height: isLine ? 0 : size,
+                cornerRadius: size / 10,
+                points: 5,
+                innerRadius: 0.5,
+                stripes: 3,
+                stroke: 'none',
+                strokeWidth: isLine ? size / 20 : 0,
+            });
+            this.shapes.apply(shapeElement, shape);
+            this.shapes.render(shapeElement);
+            contentGroup.appendChild(shapeElement);
+
+            decalGroup.setAttribute(this.ATTR_COLORVAL, this.defaultFill);
+            decalGroup.setAttribute(this.ATTR_POSX, x.toString());
+            decalGroup.setAttribute(this.ATTR_POSY, y.toString());
+        }
+
+        return decalGroup;
+    }
+
     /**
      * Updates the positions of the control elements for a given SVG decal.
      *
@@ -1539,23 +5208,292 @@ export class SVGDecals extends EventEmitter {
     private updateControlsPosition(decal: SVGGraphicsElement): void {
         const containerGroup = decal.querySelector(`[${this.ATTR_NAME}="${this.ATTR_CONTAINER}"]`);
         const controlGroup = decal.querySelector(`[${this.ATTR_NAME}="${this.ATTR_CONTROLS}"]`);
-        const rotateIcon = controlGroup?.querySelector(`[${this.ATTR_NAME}="${this.ATTR_CONTROL_ROTATE}"]`);
-        const deleteIcon = controlGroup?.querySelector(`[${this.ATTR_NAME}="${this.ATTR_CONTROL_DELETE}"]`);
 
         if (containerGroup instanceof SVGGraphicsElement) {
             const containerBBox = this.getElementBBox(containerGroup, decal, false);
 
-            if (!containerBBox) return;
+            if (!containerBBox || !controlGroup) return;
+
+            this.placeControls(controlGroup, containerBBox);
+        }
+    }
+
+    /**
+     * Positions a control group and its rotate, duplicate and delete icons around a bounding box.
+     *
+     * @param controlGroup - The control group created by `createControlButtonsGroup`.
+     * @param bbox - The bounding box the controls belong to, in SVG units.
+     */
+    private placeControls(controlGroup: Element, bbox: DOMRect): void {
+        const rotateIcon = controlGroup.querySelector(`[${this.ATTR_NAME}="${this.ATTR_CONTROL_ROTATE}"]`);
+        const deleteIcon = controlGroup.querySelector(`[${this.ATTR_NAME}="${this.ATTR_CONTROL_DELETE}"]`);
+        const duplicateIcon = controlGroup.querySelector(`[${this.ATTR_NAME}="${this.ATTR_CONTROL_DUPLICATE}"]`);
+
+        const { scale, rotate, delete: remove, duplicate } = this.controlOffsets;
+
+        /** The group sits at the scale icon, the other icons are placed relative to it */
+        if (controlGroup instanceof SVGGraphicsElement) {
+            controlGroup.setAttribute('transform', `translate(${bbox.x + scale.x}, ${bbox.y + bbox.height + scale.y})`);
+        }
+        if (rotateIcon instanceof SVGGraphicsElement) {
+            rotateIcon.setAttribute('transform', `translate(${bbox.width + rotate.x - scale.x}, ${-bbox.height + rotate.y - scale.y})`);
+        }
+        if (deleteIcon instanceof SVGGraphicsElement) {
+            deleteIcon.setAttribute('transform', `translate(${bbox.width + remove.x - scale.x}, ${remove.y - scale.y})`);
+        }
+        if (duplicateIcon instanceof SVGGraphicsElement) {
+            duplicateIcon.setAttribute('transform', `translate(${duplicate.x - scale.x}, ${-bbox.height + duplicate.y - scale.y})`);
+        }
+    }
+
+    /**
+     * Creates the HTML controls overlay on top of the renderer canvas and starts updating it while decals are selected.
+     *
+     * Every handle shows the icon of the matching texture control and starts the same gesture when pressed.
+     */
+    private createOverlay(): void {
+        const canvas = this.renderer.domElement;
+
+        if (this.overlayElement || !canvas.parentElement) return;
+
+        const overlay = document.createElement('div');
+        const icons = this.createControlButtonsGroup();
+        const controls: Record<SVGDecalsControl, string> = {
+            scale: this.ATTR_CONTROL_SCALE,
+            rotate: this.ATTR_CONTROL_ROTATE,
+            delete: this.ATTR_CONTROL_DELETE,
+            duplicate: this.ATTR_CONTROL_DUPLICATE,
+        };
+
+        overlay.setAttribute('data-decal-controls', '');
+        overlay.style.cssText = 'position: absolute; display: none; overflow: hidden; pointer-events: none;';
+
+        (Object.keys(controls) as SVGDecalsControl[]).forEach((control) => {
+            const handle = document.createElement('div');
+            const icon = icons.querySelector(`[${this.ATTR_NAME}="${controls[control]}"]`);
+
+            icon?.removeAttribute('transform');
+            icon?.removeAttribute(this.ATTR_NAME);
+
+            handle.setAttribute('data-control', control);
+            handle.style.cssText = `position: absolute; left: 0; top: 0; box-sizing: border-box; padding: 4px; border-radius: 50%;
+                background: white; box-shadow: 0 1px 4px rgba(0, 0, 0, 0.4); pointer-events: auto; touch-action: none;
+                width: ${this.OVERLAY_HANDLE_SIZE}px; height: ${this.OVERLAY_HANDLE_SIZE}px;
+                margin: ${-this.OVERLAY_HANDLE_SIZE * 0.5}px 0 0 ${-this.OVERLAY_HANDLE_SIZE * 0.5}px; cursor: ${this.getControlCursor(control)};`;
+            handle.innerHTML = `<svg xmlns="${this.SVG_NS}" viewBox="0 0 24 24" width="100%" height="100%">${icon?.outerHTML || ''}</svg>`;
+            handle.addEventListener('pointerdown', (event: PointerEvent) => this.startOverlayGesture(event, control));
+
+            overlay.appendChild(handle);
+            this.overlayHandles.set(control, handle);
+        });
+
+        canvas.parentElement.appendChild(overlay);
+        this.overlayElement = overlay;
+        this.overlayKey = '';
+        this.updateOverlay();
+    }
+
+    /**
+     * Removes the HTML controls overlay and stops updating it.
+     */
+    private removeOverlay(): void {
+        cancelAnimationFrame(this.overlayFrame);
+        this.overlayFrame = 0;
+
+        this.overlayElement?.remove();
+        this.overlayElement = null;
+        this.overlayHandles.clear();
+        this.overlayCorners.clear();
+    }
+
+    /**
+     * Starts updating the overlay every frame, unless it is not shown or already updated.
+     * Called when the selection changes.
+     */
+    private startOverlay(): void {
+        if (this.overlayElement && !this.overlayFrame) {
+            this.updateOverlay();
+        }
+    }
+
+    /**
+     * Places the overlay handles at the screen position of the selection corners.
+     *
+     * Runs every frame while decals are selected, so the handles follow camera moves, and stops with
+     * the overlay hidden once the selection is empty. The corners are looked up on the mesh only
+     * when the selection bounding box changes. A handle is hidden when its corner is not mapped on the
+     * surface, is outside the view or is hidden behind the model. The whole overlay is hidden while a
+     * gesture is in progress.
+     */
+    private updateOverlay(): void {
+        const overlay = this.overlayElement;
+        const canvas = this.renderer.domElement;
+
+        this.overlayFrame = 0;
 
-            if (controlGroup instanceof SVGGraphicsElement) {
-                controlGroup.setAttribute('transform', `translate(${containerBBox.x - 30}, ${containerBBox.y + containerBBox.height - 20})`);
+        if (!overlay) return;
+
+        const selectedDecals = this.interactionEnabled ? this.getSelectedDecals() : [];
+
+        if (!selectedDecals.length) {
+            overlay.style.display = 'none';
+            return;
+        }
+
+        this.overlayFrame = requestAnimationFrame(() => this.updateOverlay());
+
+        const gestureActive = this.dragging || this.rotating || this.scaling || this.pinching;
+        let bbox: DOMRect | null = null;
+
+        if (selectedDecals.length > 1) {
+            bbox = this.getSelectionBBox(selectedDecals);
+        } else if (selectedDecals.length === 1) {
+            const containerGroup = selectedDecals[0].querySelector(`[${this.ATTR_NAME}="${this.ATTR_CONTAINER}"]`);
+
+            if (containerGroup instanceof SVGGraphicsElement) {
+                bbox = this.getElementBBox(containerGroup, selectedDecals[0], false);
             }
-            if (rotateIcon instanceof SVGGraphicsElement) {
-                rotateIcon.setAttribute('transform', `translate(${containerBBox.width + 36}, ${-containerBBox.height + 16})`);
+        }
+
+        if (!bbox || gestureActive) {
+            overlay.style.display = 'none';
+            return;
+        }
+
+        overlay.style.display = 'block';
+        overlay.style.left = `${canvas.offsetLeft}px`;
+        overlay.style.top = `${canvas.offsetTop}px`;
+        overlay.style.width = `${canvas.clientWidth}px`;
+        overlay.style.height = `${canvas.clientHeight}px`;
+
+        const key = `${this.activeSurfaceId}:${bbox.x}:${bbox.y}:${bbox.width}:${bbox.height}`;
+
+        if (key !== this.overlayKey) {
+            this.overlayKey = key;
+            this.findOverlayCorners(bbox);
+        }
+
+        this.overlayHandles.forEach((handle, control) => {
+            const corner = this.overlayCorners.get(control);
+
+            if (!corner || !this.isPointVisible(corner.point)) {
+                handle.style.display = 'none';
+                return;
             }
-            if (deleteIcon instanceof SVGGraphicsElement) {
-                deleteIcon.setAttribute('transform', `translate(${containerBBox.width + 10}, 24)`);
+
+            const screenPoint = this.reverseRaycast(corner.point);
+
+            handle.style.display = 'block';
+            handle.style.transform = `translate(${screenPoint.x}px, ${screenPoint.y}px)`;
+        });
+    }
+
+    /**
+     * Finds the mesh points of the bounding box corners the overlay handles are attached to:
+     * `scale` to the bottom-left, `rotate` to the top-right, `delete` to the bottom-right and `duplicate` to the top-left corner.
+     *
+     * @param bbox - The bounding box of the selection, in SVG units.
+     */
+    private findOverlayCorners(bbox: DOMRect): void {
+        const surface = this.surfaces.get(this.activeSurfaceId);
+        const corners: Record<SVGDecalsControl, { x: number; y: number }> = {
+            scale: { x: bbox.x, y: bbox.y + bbox.height },
+            rotate: { x: bbox.x + bbox.width, y: bbox.y },
+            delete: { x: bbox.x + bbox.width, y: bbox.y + bbox.height },
+            duplicate: { x: bbox.x, y: bbox.y },
+        };
+
+        this.overlayCorners.clear();
+
+        (Object.keys(corners) as SVGDecalsControl[]).forEach((control) => {
+            const uv = new THREE.Vector2(corners[control].x / this.SVG_WIDTH, corners[control].y / this.SVG_HEIGHT);
+
+            for (const mesh of surface?.meshes || []) {
+                const found = this.findTriangleByUV(mesh, uv);
+                const posAttr = mesh.geometry.attributes.position;
+
+                if (!found || !posAttr) continue;
+
+                const { triangle, barycoord } = found;
+                const point = new THREE.Vector3()
+                    .addScaledVector(new THREE.Vector3(posAttr.getX(triangle[0]), posAttr.getY(triangle[0]), posAttr.getZ(triangle[0])), barycoord.x)
+                    .addScaledVector(new THREE.Vector3(posAttr.getX(triangle[1]), posAttr.getY(triangle[1]), posAttr.getZ(triangle[1])), barycoord.y)
+                    .addScaledVector(new THREE.Vector3(posAttr.getX(triangle[2]), posAttr.getY(triangle[2]), posAttr.getZ(triangle[2])), barycoord.z);
+
+                this.overlayCorners.set(control, { object: mesh, uv, point: mesh.localToWorld(point) });
+                break;
             }
+        });
+    }
+
+    /**
+     * Checks whether a point of the model is inside the view and not hidden behind other parts of the model.
+     *
+     * @param point - The point in world space.
+     * @returns True if the point can be seen from the camera.
+     */
+    private isPointVisible(point: THREE.Vector3): boolean {
+        const projected = point.clone().project(this.camera);
+
+        if (Math.abs(projected.x) > 1 || Math.abs(projected.y) > 1 || projected.z > 1) return false;
+
+        const origin = this.camera.getWorldPosition(new THREE.Vector3());
+        const direction = point.clone().sub(origin);
+        const distance = direction.length();
+
+        this.overlayRaycaster.set(origin, direction.normalize());
+
+        const hit = this.mainModel ? this.overlayRaycaster.intersectObject(this.mainModel, true)[0] : undefined;
+
+        return !hit || hit.distance >= distance * 0.999;
+    }
+
+    /**
+     * Starts a gesture from an overlay handle.
+     *
+     * Works like pressing the matching control drawn into the texture: the gesture is recorded as one
+     * undoable step, and rotate and scale are driven by the window pointer listeners until the pointer is released.
+     *
+     * @param event - The pointerdown event on the handle.
+     * @param control - The control of the handle.
+     */
+    private startOverlayGesture(event: PointerEvent, control: SVGDecalsControl): void {
+        const corner = this.overlayCorners.get(control);
+        const selectedDecals = this.getSelectedDecals();
+
+        if (!this.interactionEnabled || !this.svgElement || !corner || !selectedDecals.length) return;
+
+        event.preventDefault();
+        event.stopPropagation();
+
+        this.activePointers.set(event.pointerId, {x: event.clientX, y: event.clientY});
+
+        if (this.gestureHistoryOpen) {
+            this.endHistoryStep();
         }
+
+        this.beginHistoryStep('gesture');
+        this.gestureHistoryOpen = true;
+
+        this.startScalePos = {x: event.clientX, y: event.clientY};
+
+        if (!this.saveGestureStart(corner.object, corner.uv, selectedDecals.length > 1 ? null : selectedDecals[0])) return;
+
+        this.rotating = control === 'rotate';
+        this.scaling = control === 'scale';
+        this.deleting = control === 'delete';
+        this.duplicating = control === 'duplicate';
+        this.updateCameraControls();
+        this.startGesture();
+
+        this.emit('update', [{
+            event,
+            updatedSVGContent: this.XMLSerializer.serializeToString(this.svgElement),
+            dragging: this.dragging,
+            rotating: this.rotating,
+            scaling: this.scaling,
+            pinching: this.pinching,
+            props: this.getDecalProperties(selectedDecals[0])
+        }]);
     }
 }
@@ -0,0 +1,59 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { SVGSanitizer } from './SVGSanitizer';
+
+const parse = (markup: string): Element => {
+    return new DOMParser().parseFromString(markup, 'image/svg+xml').documentElement;
+};
+
+describe('SVGSanitizer', () => {
+    const sanitizer = new SVGSanitizer();
+
+    it('keeps references into the document', () => {
+        const element = parse('<svg xmlns="http://www.w3.org/2000/svg"><rect fill="url(#paint)" style="fill: url(#paint)"/></svg>');
+
+        sanitizer.sanitize(element);
+
+        expect(element.querySelector('rect')?.getAttribute('fill')).toBe('url(#paint)');
+        expect(element.querySelector('rect')?.getAttribute('style')).toBe('fill: url(#paint)');
+    });
+
+    it('removes external references', () => {
+        const element = parse('<svg xmlns="http://www.w3.org/2000/svg"><rect fill="url(https://example.com/a.svg#a)"/></svg>');
+
+        sanitizer.sanitize(element);
+
+        expect(element.querySelector('rect')?.hasAttribute('fill')).toBe(false);
+    });
+
+    it('removes external references written with CSS escapes', () => {
+        const element = parse([
+            '<svg xmlns="http://www.w3.org/2000/svg">',
+            '<rect id="hex" style="fill: u\\72l(https://example.com/a.svg#a)"/>',
+            '<rect id="char" style="fill: \\url(https://example.com/a.svg#a)"/>',
+            '<rect id="quote" style="fill: url(\\&quot;https://example.com/a.svg#a\\&quot;)"/>',
+            '<rect id="comment" style="fill: url(/**/https://example.com/a.svg#a)"/>',
+            '<rect id="import" style="@\\69mport \'https://example.com/a.css\'"/>',
+            '</svg>',
+        ].join(''));
+
+        sanitizer.sanitize(element);
+
+        ['hex', 'char', 'quote', 'comment', 'import'].forEach((id) => {
+            expect(element.querySelector(`#${id}`)?.hasAttribute('style')).toBe(false);
+        });
+    });
+
+    it('accepts fragment references and inline images as hrefs', () => {
+        expect(sanitizer.isSafeHref('#icon')).toBe(true);
+        expect(sanitizer.isSafeHref('data:image/png;base64,AAAA')).toBe(true);
+        expect(sanitizer.isSafeHref(' JavaScript:alert(1)')).toBe(false);
+        expect(sanitizer.isSafeHref('https://example.com/a.png')).toBe(false);
+    });
+
+    it('accepts only data URLs as inline images', () => {
+        expect(sanitizer.isInlineImage('data:image/png;base64,AAAA')).toBe(true);
+        expect(sanitizer.isInlineImage('#icon')).toBe(false);
+        expect(sanitizer.isInlineImage('https://example.com/a.png')).toBe(false);
+    });
+});
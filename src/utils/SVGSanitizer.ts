@@ -0,0 +1,146 @@
+import { SVG_NS } from './decalElements';
+
+/**
+ * Elements that decal markup is made of. Scripts, `foreignObject`, animations and
+ * elements loading external resources (`feImage`, `style`) are not part of the list.
+ */
+const ALLOWED_ELEMENTS = new Set([
+    'svg', 'g', 'defs', 'symbol', 'use', 'title', 'desc',
+    'text', 'tspan', 'textPath', 'image',
+    'path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon',
+    'linearGradient', 'radialGradient', 'stop', 'pattern', 'clipPath', 'mask',
+    'filter', 'feBlend', 'feColorMatrix', 'feComponentTransfer', 'feComposite', 'feConvolveMatrix',
+    'feDiffuseLighting', 'feDisplacementMap', 'feDistantLight', 'feDropShadow', 'feFlood',
+    'feFuncA', 'feFuncB', 'feFuncG', 'feFuncR', 'feGaussianBlur', 'feMerge', 'feMergeNode',
+    'feMorphology', 'feOffset', 'fePointLight', 'feSpecularLighting', 'feSpotLight', 'feTile', 'feTurbulence',
+]);
+
+/**
+ * Geometry, presentation, text, paint and filter attributes of the allowed elements.
+ */
+const ALLOWED_ATTRIBUTES = new Set([
+    'id', 'class', 'style', 'transform', 'transform-origin', 'xmlns', 'xmlns:xlink', 'version', 'xml:space',
+    'x', 'y', 'dx', 'dy', 'width', 'height', 'rx', 'ry', 'r', 'cx', 'cy', 'fx', 'fy', 'fr',
+    'x1', 'y1', 'x2', 'y2', 'd', 'points', 'pathLength', 'viewBox', 'preserveAspectRatio', 'href', 'xlink:href',
+    'fill', 'fill-opacity', 'fill-rule', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-linecap',
+    'stroke-linejoin', 'stroke-miterlimit', 'stroke-dasharray', 'stroke-dashoffset', 'opacity', 'color',
+    'display', 'visibility', 'overflow', 'paint-order', 'vector-effect', 'clip-path', 'clip-rule', 'mask',
+    'filter', 'mix-blend-mode', 'isolation',
+    'font-family', 'font-size', 'font-weight', 'font-style', 'font-variant', 'font-stretch', 'letter-spacing',
+    'word-spacing', 'text-anchor', 'dominant-baseline', 'alignment-baseline', 'baseline-shift', 'text-decoration',
+    'writing-mode', 'direction', 'lengthAdjust', 'textLength', 'startOffset', 'method', 'spacing', 'side', 'rotate',
+    'gradientUnits', 'gradientTransform', 'spreadMethod', 'offset', 'stop-color', 'stop-opacity',
+    'patternUnits', 'patternContentUnits', 'patternTransform', 'clipPathUnits', 'maskUnits', 'maskContentUnits',
+    'filterUnits', 'primitiveUnits', 'in', 'in2', 'result', 'stdDeviation', 'edgeMode', 'flood-color',
+    'flood-opacity', 'lighting-color', 'color-interpolation', 'color-interpolation-filters', 'operator',
+    'k1', 'k2', 'k3', 'k4', 'mode', 'values', 'type', 'tableValues', 'slope', 'intercept', 'amplitude',
+    'exponent', 'radius', 'baseFrequency', 'numOctaves', 'seed', 'stitchTiles', 'scale', 'xChannelSelector',
+    'yChannelSelector', 'order', 'kernelMatrix', 'divisor', 'bias', 'targetX', 'targetY', 'preserveAlpha',
+    'azimuth', 'elevation', 'z', 'pointsAtX', 'pointsAtY', 'pointsAtZ', 'specularExponent', 'specularConstant',
+    'diffuseConstant', 'surfaceScale', 'limitingConeAngle',
+]);
+
+/**
+ * Removes everything that could run script or load external resources from untrusted SVG markup.
+ *
+ * Only the elements and attributes decals are built from are kept, besides the extra attributes
+ * the caller stores its own state in. Event handler attributes are always removed, `href`s must
+ * point into the document or be an inline image, and `url()` references must point into the document.
+ */
+export class SVGSanitizer {
+    private isAllowedAttribute: (name: string) => boolean;
+
+    /**
+     * @param isAllowedAttribute - Accepts additional attribute names, e.g. the ones a decal group stores its state in.
+     */
+    constructor(isAllowedAttribute: (name: string) => boolean = () => false) {
+        this.isAllowedAttribute = isAllowedAttribute;
+    }
+
+    /**
+     * Sanitizes an element and its descendants in place. Must be called before the element
+     * is imported into the page.
+     *
+     * @param element - The element to sanitize.
+     * @returns True if the element itself is allowed, false if it has to be discarded.
+     */
+    public sanitize(element: Element): boolean {
+        if (!this.isAllowedElement(element)) return false;
+
+        Array.from(element.attributes).forEach((attribute) => {
+            if (!this.isSafeAttribute(attribute.name, attribute.value)) {
+                element.removeAttributeNode(attribute);
+            }
+        });
+
+        Array.from(element.childNodes).forEach((child) => {
+            if (child instanceof Element) {
+                if (!this.sanitize(child)) child.remove();
+            } else if (child.nodeType !== Node.TEXT_NODE) {
+                /** Comments, processing instructions and CDATA are not needed by decals */
+                child.remove();
+            }
+        });
+
+        return true;
+    }
+
+    /**
+     * Checks whether a URL can be used as an `href`: a fragment reference or an inline image.
+     *
+     * @param href - The URL to check.
+     * @returns True if the URL is safe.
+     */
+    public isSafeHref(href: string): boolean {
+        return this.normalize(href).startsWith('#') || this.isInlineImage(href);
+    }
+
+    /**
+     * Checks whether a URL is an inline image, i.e. a `data:image/` URL.
+     *
+     * @param href - The URL to check.
+     * @returns True if the URL is an inline image.
+     */
+    public isInlineImage(href: string): boolean {
+        return this.normalize(href).startsWith('data:image/');
+    }
+
+    private isAllowedElement(element: Element): boolean {
+        return element.namespaceURI === SVG_NS && ALLOWED_ELEMENTS.has(element.localName);
+    }
+
+    private isSafeAttribute(name: string, value: string): boolean {
+        /** Styles and presentation attributes are parsed as CSS, so escapes and comments are resolved first */
+        const normalizedValue = this.normalize(this.decodeCSS(value));
+
+        if (name.toLowerCase().startsWith('on')) return false;
+        if (!ALLOWED_ATTRIBUTES.has(name) && !/^data-[\w-]+$/.test(name) && !this.isAllowedAttribute(name)) return false;
+        if (name === 'href' || name === 'xlink:href') return this.isSafeHref(value);
+        if (['javascript:', 'expression(', '@import', 'image-set(', 'src('].some((pattern) => normalizedValue.includes(pattern))) return false;
+
+        /** Paint, clip and filter references must stay inside the document */
+        return Array.from(normalizedValue.matchAll(/url\(["']?([^"')]*)/g)).every((match) => match[1].startsWith('#'));
+    }
+
+    /**
+     * Removes CSS comments and resolves CSS escapes, e.g. `u\72l(` to `url(`.
+     */
+    private decodeCSS(value: string): string {
+        return value
+            .replace(/\/\*[\s\S]*?(\*\/|$)/g, '')
+            .replace(/\\([0-9a-f]{1,6})\s?/gi, (_, hex: string) => {
+                const code = parseInt(hex, 16);
+
+                return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '\ufffd';
+            })
+            .replace(/\\([\s\S])/g, '$1');
+    }
+
+    /**
+     * Lowercases a value and strips whitespace and control characters browsers ignore inside URLs.
+     */
+    private normalize(value: string): string {
+        // eslint-disable-next-line no-control-regex
+        return value.replace(/[\u0000- ]/g, '').toLowerCase();
+    }
+}
@@ -1,14 +1,19 @@
 import * as THREE from 'three';
+import { FontRegistry } from './FontRegistry';
 
 export class SVGTexture {
     private svgElement: SVGSVGElement | null = null;
+    private hiddenElement: HTMLElement | null = null;
     private canvas: OffscreenCanvas | null = null;
     private canvasTexture: THREE.CanvasTexture | null = null;
     private static idCounter = 0;
     private uniqueId: string;
+    private size: number;
+    private fonts: FontRegistry | null = null;
 
-    constructor(svgContent: string, material: THREE.MeshStandardMaterial) {
+    constructor(svgContent: string, material: THREE.MeshStandardMaterial, size: number = 4096) {
         this.uniqueId = `${material.name || ''}.${SVGTexture.idCounter++}`;
+        this.size = size;
 
         if (Array.isArray(material)) {
             material.forEach(material => {
@@ -26,7 +31,7 @@ export class SVGTexture {
     }
 
     private createTexture(): THREE.CanvasTexture {
-        this.canvas = new OffscreenCanvas(4096, 4096);
+        this.canvas = new OffscreenCanvas(this.size, this.size);
         this.canvasTexture = new THREE.CanvasTexture(this.canvas);
 
         return this.canvasTexture;
@@ -42,6 +47,7 @@ export class SVGTexture {
         hiddenElement.innerHTML = svgContent;
 
         document.body.appendChild(hiddenElement);
+        this.hiddenElement = hiddenElement;
         this.svgElement = hiddenElement.querySelector('svg') as SVGSVGElement;
 
         return hiddenElement;
@@ -55,12 +61,17 @@ export class SVGTexture {
 
         const ctx = this.canvas.getContext('2d');
 
+        this.embedFonts();
+
         if (ctx) {
             const img = new Image();
 
             console.time(`updateSVGTexture ${this.uniqueId}`);
 
             img.onload = () => {
+                /** The texture was disposed while the image was loading */
+                if (!this.canvas) return;
+
                 ctx.clearRect(0, 0, this.canvas?.width || 100, this.canvas?.height || 100);
                 ctx.drawImage(img, 0, 0, this.canvas?.width || 100, this.canvas?.height || 100);
 
@@ -83,11 +94,66 @@ export class SVGTexture {
         return this.svgElement;
     }
 
+    /**
+     * Sets the registry of the fonts embedded into the SVG on every update.
+     * @param fonts - The font registry, or null to stop embedding fonts.
+     */
+    public setFontRegistry(fonts: FontRegistry | null): void {
+        this.fonts = fonts;
+        this.embedFonts();
+    }
+
+    /**
+     * Writes the `@font-face` rules of the registered fonts used by the SVG text into a
+     * `style[data-fonts]` element, so the fonts are available when the SVG is rasterized or exported.
+     */
+    private embedFonts(): void {
+        if (!this.svgElement) return;
+
+        const css = this.fonts?.getFontFaceCSS(this.svgElement) || '';
+        let style = this.svgElement.querySelector(':scope > style[data-fonts]');
+
+        if (!css) {
+            style?.remove();
+            return;
+        }
+
+        if (!style) {
+            style = document.createElementNS('http://www.w3.org/2000/svg', 'style');
+            style.setAttribute('data-fonts', '');
+            this.svgElement.prepend(style);
+        }
+
+        if (style.textContent !== css) {
+            style.textContent = css;
+        }
+    }
+
+    /**
+     * Removes the hidden SVG element from the document, disposes the texture and releases the canvas memory.
+     * Materials using the texture keep their reference to it and should be disposed or reassigned by their owner.
+     */
+    public dispose(): void {
+        this.hiddenElement?.remove();
+        this.canvasTexture?.dispose();
+
+        if (this.canvas) {
+            this.canvas.width = 0;
+            this.canvas.height = 0;
+        }
+
+        this.hiddenElement = null;
+        this.svgElement = null;
+        this.canvas = null;
+        this.canvasTexture = null;
+    }
+
     public downloadSVG(filename: string = 'download.svg'): void {
         if (!this.svgElement) {
             console.error('SVG element is not initialized');
             return;
         }
+        this.embedFonts();
         const blob = new Blob([this.svgElement.outerHTML], { type: 'image/svg+xml' });
         const link = document.createElement('a');
         link.href = URL.createObjectURL(blob);
@@ -113,6 +179,10 @@ export class SVGTexture {
             const group = document.createElementNS('http://www.w3.org/2000/svg', 'g');
             
             if (svgElement instanceof SVGSVGElement) {
+                /** Keep data attributes, such as the decal surface id, so each SVG's group can be told apart */
+                Array.from(svgElement.attributes)
+                    .filter((attribute) => attribute.name.startsWith('data-'))
+                    .forEach((attribute) => group.setAttribute(attribute.name, attribute.value));
                 Array.from(svgElement.children).forEach(child => {
                     group.appendChild(child.cloneNode(true));
                 });
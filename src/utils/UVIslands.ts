@@ -0,0 +1,198 @@
+import * as THREE from 'three';
+
+/**
+ * Map of the UV islands of one or more geometries, rasterized into a coarse grid over UV space.
+ *
+ * Triangles that share a UV coordinate belong to the same island. Every grid cell stores the
+ * index of the island covering it, or -1 for texture space that no triangle is mapped to.
+ */
+export class UVIslands {
+    private resolution: number;
+    private cells: Int32Array;
+    private bounds: THREE.Box2[] = [];
+
+    /**
+     * @param resolution - Number of grid cells along each UV axis.
+     */
+    constructor(resolution: number = 256) {
+        this.resolution = resolution;
+        this.cells = new Int32Array(resolution * resolution).fill(-1);
+    }
+
+    /**
+     * Gets the number of islands found so far.
+     */
+    public get count(): number {
+        return this.bounds.length;
+    }
+
+    /**
+     * Finds the islands of a geometry's `uv` attribute and adds them to the map.
+     * @param geometry - The geometry to analyze. Geometries without UVs are ignored.
+     */
+    public addGeometry(geometry: THREE.BufferGeometry): void {
+        const uv = geometry.getAttribute('uv');
+        const index = geometry.getIndex();
+
+        if (!uv) return;
+
+        const triangleCount = Math.floor((index ? index.count : uv.count) / 3);
+        const vertexAt = (corner: number) => index ? index.getX(corner) : corner;
+
+        /** Weld vertices by UV value, so split vertices along 3D hard edges stay in one island */
+        const keys = new Map<string, number>();
+        const welded = new Int32Array(uv.count);
+
+        for (let i = 0; i < uv.count; i++) {
+            const key = `${uv.getX(i).toFixed(5)},${uv.getY(i).toFixed(5)}`;
+            let id = keys.get(key);
+
+            if (id === undefined) {
+                id = keys.size;
+                keys.set(key, id);
+            }
+
+            welded[i] = id;
+        }
+
+        /** Union-find over welded vertices */
+        const parent = new Int32Array(keys.size).map((_, i) => i);
+        const find = (i: number): number => {
+            while (parent[i] !== i) {
+                parent[i] = parent[parent[i]];
+                i = parent[i];
+            }
+            return i;
+        };
+        const union = (a: number, b: number) => {
+            const rootA = find(a);
+            const rootB = find(b);
+
+            if (rootA !== rootB) parent[rootB] = rootA;
+        };
+
+        for (let t = 0; t < triangleCount; t++) {
+            const a = welded[vertexAt(t * 3)];
+
+            union(a, welded[vertexAt(t * 3 + 1)]);
+            union(a, welded[vertexAt(t * 3 + 2)]);
+        }
+
+        const islandIds = new Map<number, number>();
+        const a = new THREE.Vector2();
+        const b = new THREE.Vector2();
+        const c = new THREE.Vector2();
+
+        for (let t = 0; t < triangleCount; t++) {
+            const ia = vertexAt(t * 3);
+            const ib = vertexAt(t * 3 + 1);
+            const ic = vertexAt(t * 3 + 2);
+            const root = find(welded[ia]);
+            let islandId = islandIds.get(root);
+
+            if (islandId === undefined) {
+                islandId = this.bounds.length;
+                islandIds.set(root, islandId);
+                this.bounds.push(new THREE.Box2());
+            }
+
+            a.set(uv.getX(ia), uv.getY(ia));
+            b.set(uv.getX(ib), uv.getY(ib));
+            c.set(uv.getX(ic), uv.getY(ic));
+
+            this.bounds[islandId].expandByPoint(a).expandByPoint(b).expandByPoint(c);
+            this.rasterizeTriangle(a, b, c, islandId);
+        }
+    }
+
+    /**
+     * Returns the island at a UV coordinate.
+     * @param u - The U coordinate in the range [0, 1].
+     * @param v - The V coordinate in the range [0, 1].
+     * @returns The island index, or -1 if the coordinate is not on any island.
+     */
+    public getIslandAt(u: number, v: number): number {
+        const x = Math.floor(u * this.resolution);
+        const y = Math.floor(v * this.resolution);
+
+        if (x < 0 || y < 0 || x >= this.resolution || y >= this.resolution) return -1;
+
+        return this.cells[y * this.resolution + x];
+    }
+
+    /**
+     * Lists the islands covered by a rectangle in UV space.
+     * @param min - The minimum UV corner of the rectangle.
+     * @param max - The maximum UV corner of the rectangle.
+     * @returns The covered islands and whether the rectangle also covers empty texture space.
+     */
+    public getIslandsInRect(min: THREE.Vector2, max: THREE.Vector2): { islands: number[]; empty: boolean } {
+        const islands = new Set<number>();
+        const fromX = Math.floor(min.x * this.resolution);
+        const fromY = Math.floor(min.y * this.resolution);
+        const toX = Math.floor(max.x * this.resolution);
+        const toY = Math.floor(max.y * this.resolution);
+        let empty = false;
+
+        for (let y = fromY; y <= toY; y++) {
+            for (let x = fromX; x <= toX; x++) {
+                const island = (x < 0 || y < 0 || x >= this.resolution || y >= this.resolution)
+                    ? -1
+                    : this.cells[y * this.resolution + x];
+
+                if (island === -1) {
+                    empty = true;
+                } else {
+                    islands.add(island);
+                }
+            }
+        }
+
+        return { islands: Array.from(islands), empty };
+    }
+
+    /**
+     * Returns the UV bounding box of an island.
+     * @param island - The island index.
+     * @returns A copy of the bounding box, or null if the island does not exist.
+     */
+    public getIslandBounds(island: number): THREE.Box2 | null {
+        return this.bounds[island]?.clone() || null;
+    }
+
+    /**
+     * Marks every grid cell whose center lies inside a triangle, plus the cells of its corners,
+     * so that triangles thinner than a cell still occupy the grid.
+     */
+    private rasterizeTriangle(a: THREE.Vector2, b: THREE.Vector2, c: THREE.Vector2, island: number): void {
+        const res = this.resolution;
+        const minX = Math.max(0, Math.floor(Math.min(a.x, b.x, c.x) * res));
+        const minY = Math.max(0, Math.floor(Math.min(a.y, b.y, c.y) * res));
+        const maxX = Math.min(res - 1, Math.floor(Math.max(a.x, b.x, c.x) * res));
+        const maxY = Math.min(res - 1, Math.floor(Math.max(a.y, b.y, c.y) * res));
+        const area = (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+
+        [a, b, c].forEach((corner) => {
+            const x = Math.floor(corner.x * res);
+            const y = Math.floor(corner.y * res);
+
+            if (x >= 0 && y >= 0 && x < res && y < res) this.cells[y * res + x] = island;
+        });
+
+        if (area === 0) return;
+
+        for (let y = minY; y <= maxY; y++) {
+            for (let x = minX; x <= maxX; x++) {
+                const px = (x + 0.5) / res;
+                const py = (y + 0.5) / res;
+                const w0 = ((b.x - px) * (c.y - py) - (b.y - py) * (c.x - px)) / area;
+                const w1 = ((c.x - px) * (a.y - py) - (c.y - py) * (a.x - px)) / area;
+                const w2 = 1 - w0 - w1;
+
+                if (w0 >= 0 && w1 >= 0 && w2 >= 0) {
+                    this.cells[y * res + x] = island;
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,106 @@
+/** Namespace of the SVG elements decals are built from. */
+export const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/** Attribute naming the decal groups and the role of the elements inside them, e.g. `content` or `paint`. */
+export const ATTR_NAME = 'name';
+
+/**
+ * Creates an SVG element with the given attributes.
+ *
+ * @param tagName - The tag name of the element.
+ * @param attributes - The attributes to set, numbers are converted to strings.
+ * @param parent - An element to append the created element to.
+ * @returns The created element.
+ */
+export const createSVGElement = <K extends keyof SVGElementTagNameMap>(
+    tagName: K,
+    attributes: Record<string, string | number> = {},
+    parent?: Element,
+): SVGElementTagNameMap[K] => {
+    const element = document.createElementNS(SVG_NS, tagName);
+
+    Object.entries(attributes).forEach(([name, value]) => element.setAttribute(name, value.toString()));
+    parent?.appendChild(element);
+
+    return element;
+};
+
+/**
+ * Reports an invalid value of a decal property that is skipped.
+ *
+ * @param property - The property the value belongs to, e.g. `shape`.
+ * @param name - The name of the value.
+ * @param value - The invalid value.
+ */
+export const warnInvalid = (property: string, name: string, value: unknown): void => {
+    console.warn(`Invalid ${property} "${name}": ${JSON.stringify(value)}.`);
+};
+
+/**
+ * Returns the `defs` element of a decal group, creating it if needed. Definitions are kept
+ * inside the decal group, so they are copied, restored and exported along with the decal.
+ *
+ * @param decal - The decal group.
+ * @returns The definitions element.
+ */
+export const getDecalDefinitions = (decal: Element): Element => {
+    let defsElement = decal.querySelector(':scope > defs');
+
+    if (!defsElement) {
+        defsElement = createSVGElement('defs');
+        decal.prepend(defsElement);
+    }
+
+    return defsElement;
+};
+
+/**
+ * Finds a definition of a decal by its role.
+ *
+ * @param decal - The decal group.
+ * @param role - The value of the definition's `name` attribute.
+ * @returns The definition, or null if the decal has none.
+ */
+export const getDecalDefinition = (decal: Element, role: string): Element | null => {
+    return decal.querySelector(`:scope > defs > [${ATTR_NAME}="${role}"]`);
+};
+
+/**
+ * Removes a definition of a decal, and its `defs` element once it is empty.
+ *
+ * @param element - The definition to remove.
+ */
+export const removeDecalDefinition = (element: Element | null): void => {
+    const defsElement = element?.parentElement;
+
+    element?.remove();
+
+    if (defsElement?.tagName === 'defs' && !defsElement.children.length) {
+        defsElement.remove();
+    }
+};
+
+/**
+ * Names a definition of a decal after the decal and updates the `url()` references to it,
+ * so copies of a decal do not point to the definitions of the original.
+ *
+ * @param decal - The decal group.
+ * @param element - The definition.
+ * @param suffix - Appended to the decal name to form the id.
+ */
+export const nameDecalDefinition = (decal: Element, element: Element, suffix: string): void => {
+    const id = `${decal.getAttribute(ATTR_NAME)}-${suffix}`;
+    const previousReference = `url(#${element.getAttribute('id')})`;
+
+    if (element.getAttribute('id') === id) return;
+
+    element.setAttribute('id', id);
+
+    decal.querySelectorAll('[fill], [stroke], [filter]').forEach((referencingElement) => {
+        ['fill', 'stroke', 'filter'].forEach((name) => {
+            if (referencingElement.getAttribute(name) === previousReference) {
+                referencingElement.setAttribute(name, `url(#${id})`);
+            }
+        });
+    });
+};